@@ -0,0 +1,238 @@
+import { IncomingMessage, ServerResponse } from "http";
+import { parse } from "url";
+import { createHash, timingSafeEqual } from "crypto";
+import { v2 as webdav } from "webdav-server";
+import PreservingMirrorServer from "./PreservingMirrorServer";
+import PreservingMirrorFileSystem, { Workspace } from "./PreservingMirrorFileSystem";
+import UserRepositories from "./UserRepositories";
+import { AdminConfig, ADMIN_PATH } from "./config";
+
+type Query = { [name: string]: string | string[] | undefined };
+
+/**
+ * Status code and body of an answer, without body for a 204.
+ */
+type Answer = [number, any?];
+
+/**
+ * Requests that change an overlay, written to the audit log.
+ */
+const ACTIONS = ['revert', 'compact', 'snapshot', 'rollback'];
+
+const errorCodes: { [code: string]: number } = {
+    ENOENT: 404,
+    EINVAL: 400,
+    EEXIST: 409,
+    ENOTSUP: 501
+};
+
+/**
+ * JSON API for the operators of a running server, under `/.wpm/`. Requests
+ * carry the token of the configuration as `Authorization: Bearer <token>`,
+ * apart from the WebDAV users:
+ *
+ * - `GET /.wpm/status` reports the uptime, the request latency, the latest
+ *   errors and, for each mount, what its overlays hold and their copy-ups
+ *   in progress.
+ * - `POST /.wpm/revert?path=<path>` discards the overlay changes of a path
+ *   of the server (with its mount prefix) and its descendants.
+ * - `POST /.wpm/compact?mount=<prefix>` compacts the journal of a mount,
+ *   which may be left out when there is a single one.
+ * - `POST /.wpm/snapshot?name=<name>&mount=<prefix>` checkpoints the overlay
+ *   of a mount, and `POST /.wpm/rollback?name=<name>&mount=<prefix>` rolls
+ *   it back to a snapshot.
+ *
+ * The actions take `&user=<name>` for the overlay of a user, when the users
+ * have their own; otherwise they act on the anonymous one. They are written
+ * to the audit log, as the changes made through WebDAV.
+ */
+export default class AdminApi {
+    constructor(private readonly server: PreservingMirrorServer, private readonly config: AdminConfig) {
+    }
+
+    /**
+     * Checks whether a request is for the admin API.
+     */
+    public static isAdminRequest(req: IncomingMessage): boolean {
+        const pathname = parse(req.url || '').pathname || '';
+
+        return pathname === ADMIN_PATH || pathname.startsWith(ADMIN_PATH + '/');
+    }
+
+    public handle(req: IncomingMessage, res: ServerResponse): void {
+        const { pathname, query } = parse(req.url || '', true);
+        const route = `${req.method} ${pathname}`;
+        const action = req.method === 'POST' ? ACTIONS.find(name => pathname === `${ADMIN_PATH}/${name}`) : undefined;
+        let answer: Promise<Answer>;
+
+        // The body of an action is not used.
+        req.resume();
+
+        if (!this.authenticate(req)) {
+            res.setHeader('WWW-Authenticate', 'Bearer realm="wpm"');
+            answer = Promise.resolve<Answer>([401, { error: 'Missing or wrong admin token.' }]);
+        } else if (route === `GET ${ADMIN_PATH}/status`) {
+            answer = this.status();
+        } else if (route === `POST ${ADMIN_PATH}/revert`) {
+            answer = this.revert(query);
+        } else if (route === `POST ${ADMIN_PATH}/compact`) {
+            answer = this.compact(query);
+        } else if (route === `POST ${ADMIN_PATH}/snapshot`) {
+            answer = this.snapshot(query);
+        } else if (route === `POST ${ADMIN_PATH}/rollback`) {
+            answer = this.rollback(query);
+        } else {
+            answer = Promise.resolve<Answer>([404, { error: `Unknown admin request: ${route}` }]);
+        }
+
+        answer.catch(err => {
+            if (!errorCodes[err.code]) {
+                console.error('Admin request failed!', route, err);
+            }
+
+            return [errorCodes[err.code] || 500, { error: err.message }] as Answer;
+        }).then(([status, body]) => {
+            res.statusCode = status;
+
+            if (action) {
+                this.logAction(req, action, query, status);
+            }
+
+            if (body === undefined) {
+                return res.end();
+            }
+
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify(body, null, 2));
+        });
+    }
+
+    private async status(): Promise<Answer> {
+        const { stats } = this.server;
+        const mounts = [];
+
+        for (const [prefix, repositories] of Array.from(this.server.repositories)) {
+            const opened = repositories instanceof UserRepositories ? Array.from(repositories.opened) : [[undefined, repositories] as [undefined, typeof repositories]];
+            const overlays = [];
+
+            for (const [user, repository] of opened) {
+                overlays.push({ user, ...await repository.stats() });
+            }
+
+            mounts.push({ path: prefix, changes: repositories.localPathMapping, overlays });
+        }
+
+        return [200, {
+            started: stats.started.toISOString(),
+            uptime: Math.floor((Date.now() - stats.started.getTime()) / 1000),
+            requests: stats.latency,
+            errors: stats.recentErrors,
+            mounts
+        }];
+    }
+
+    private async revert(query: Query): Promise<Answer> {
+        const requestPath = getParameter(query, 'path');
+
+        if (!requestPath) {
+            return [400, { error: 'Missing path to revert.' }];
+        }
+
+        const { fs, subPath } = this.server.webdav.getFileSystemSync(new webdav.Path(requestPath));
+
+        if (!(fs instanceof PreservingMirrorFileSystem)) {
+            return [404, { error: `Not a mirror: ${requestPath}` }];
+        }
+
+        const reverted = await fs.revert(fs.getUserWorkspace(getParameter(query, 'user')), subPath);
+
+        return reverted ? [204] : [404, { error: `Nothing to revert at ${requestPath}` }];
+    }
+
+    private async compact(query: Query): Promise<Answer> {
+        const [fs, workspace] = this.getWorkspace(query);
+
+        return [200, { records: await fs.compact(workspace) }];
+    }
+
+    private async snapshot(query: Query): Promise<Answer> {
+        const name = getParameter(query, 'name');
+
+        if (!name) {
+            return [400, { error: 'Missing snapshot name.' }];
+        }
+
+        return [201, await this.getWorkspace(query)[1].snapshots.create(name)];
+    }
+
+    private async rollback(query: Query): Promise<Answer> {
+        const name = getParameter(query, 'name');
+
+        if (!name) {
+            return [400, { error: 'Missing snapshot name to roll back to.' }];
+        }
+
+        const [fs, workspace] = this.getWorkspace(query);
+
+        await fs.rollback(workspace, name);
+
+        return [204];
+    }
+
+    /**
+     * Gets the workspace of the mount and user of an action. The mount may
+     * be left out when there is a single one.
+     */
+    private getWorkspace(query: Query): [PreservingMirrorFileSystem, Workspace] {
+        const prefixes = Array.from(this.server.repositories.keys());
+        const mount = getParameter(query, 'mount');
+        const prefix = mount !== undefined ? normalizeMount(mount) : prefixes.length === 1 ? prefixes[0] : undefined;
+
+        if (prefix === undefined) {
+            throw Object.assign(new Error('Missing mount.'), { code: 'EINVAL' });
+        } else if (prefixes.indexOf(prefix) < 0) {
+            throw Object.assign(new Error(`Unknown mount: ${prefix}`), { code: 'ENOENT' });
+        }
+
+        const fs = this.server.webdav.getFileSystemSync(new webdav.Path(prefix)).fs as PreservingMirrorFileSystem;
+
+        return [fs, fs.getUserWorkspace(getParameter(query, 'user'))];
+    }
+
+    /**
+     * Logs an action with the path it was for: the reverted one, or the
+     * mount.
+     */
+    private logAction(req: IncomingMessage, op: string, query: Query, status: number) {
+        const mount = getParameter(query, 'mount');
+
+        this.server.audit.log(status >= 400 ? 'error' : 'info', {
+            op,
+            method: 'POST',
+            user: getParameter(query, 'user'),
+            client: req.socket.remoteAddress,
+            path: getParameter(query, 'path') || (mount !== undefined ? normalizeMount(mount) : '/'),
+            status
+        });
+    }
+
+    /**
+     * Compares the token of a request, in a constant time.
+     */
+    private authenticate(req: IncomingMessage): boolean {
+        const match = /^Bearer\s+(\S+)\s*$/i.exec(req.headers.authorization || '');
+        const digest = (token: string) => createHash('sha256').update(token).digest();
+
+        return !!match && timingSafeEqual(digest(match[1]), digest(this.config.token));
+    }
+}
+
+function normalizeMount(mount: string): string {
+    return '/' + mount.replace(/^\/+|\/+$/g, '');
+}
+
+function getParameter(query: Query, name: string): string | undefined {
+    const value = query[name];
+
+    return Array.isArray(value) ? value[value.length - 1] : value;
+}
@@ -0,0 +1,192 @@
+import { createWriteStream, rename, stat } from "fs";
+import { parse } from "url";
+import { promisify } from "util";
+import { HTTPRequestContext } from "webdav-server/lib/index.v2";
+import { JournalRecord } from "./Journal";
+import { getBytesWritten } from "./PreservingMirrorFileSystem";
+import { endStream } from "./files";
+
+export type AuditLevel = 'off' | 'error' | 'info' | 'debug';
+
+export interface AuditConfig {
+    /**
+     * File to append the records to, or `-` for the standard output.
+     */
+    path: string;
+
+    /**
+     * `error` logs the failed changes, `info` all the changes, and `debug`
+     * every request.
+     */
+    level: AuditLevel;
+
+    /**
+     * Size from which the file is rotated, in bytes.
+     */
+    maxSize?: number;
+
+    /**
+     * Number of rotated files kept, as `<path>.1` (the newest) to `<path>.<maxFiles>`.
+     */
+    maxFiles?: number;
+}
+
+/**
+ * An entry of the audit log. Paths are WebDAV paths on the server, with the
+ * mount prefix.
+ */
+export interface AuditRecord {
+    time: string;
+    level: AuditLevel;
+    op: string;
+    method?: string;
+    user?: string;
+    client?: string;
+    path: string;
+    destination?: string;
+    status?: number;
+    bytes?: number;
+}
+
+const renameAsync = promisify(rename), statAsync = promisify(stat);
+
+const LEVELS: AuditLevel[] = ['off', 'error', 'info', 'debug'];
+
+/**
+ * Operations of the methods that change the overlay.
+ */
+const operations: { [method: string]: string } = {
+    PUT: 'write',
+    MKCOL: 'create',
+    DELETE: 'delete',
+    MOVE: 'move',
+    COPY: 'copy',
+    PROPPATCH: 'property',
+    LOCK: 'lock',
+    UNLOCK: 'unlock',
+    POST: 'write'
+};
+
+/**
+ * Audit log of the changes made through the server, as JSON lines, rotated
+ * by size. Lines are written in turn, after the file is opened or rotated.
+ */
+export default class AuditLog {
+    private stream?: NodeJS.WritableStream;
+    private size = 0;
+
+    /**
+     * Last line written, or opening, which the next line waits for.
+     */
+    private queue: Promise<void>;
+
+    constructor(public readonly config: AuditConfig) {
+        this.queue = this.open().catch(err => console.error('Cannot open the audit log!', err));
+    }
+
+    public static isLevel(level: string): level is AuditLevel {
+        return LEVELS.indexOf(level as AuditLevel) >= 0;
+    }
+
+    /**
+     * Logs a request once answered: a change, at `info` level (`error` when it
+     * failed), or any other request at `debug` level.
+     */
+    public logRequest(ctx: HTTPRequestContext) {
+        const method = ctx.request.method!.toUpperCase();
+        const status = ctx.response.statusCode;
+        const destination = ctx.headers.find('Destination');
+        let op = operations[method];
+
+        if (op === 'write' && status === 201) {
+            op = 'create';
+        }
+
+        this.log(!op ? 'debug' : status >= 400 ? 'error' : 'info', {
+            op: op || method.toLowerCase(),
+            method,
+            user: ctx.user && !ctx.user.isDefaultUser ? ctx.user.username : undefined,
+            client: ctx.request.socket.remoteAddress,
+            path: ctx.requested.path.toString(),
+            destination: destination ? decodeURIComponent(parse(destination).pathname || '') : undefined,
+            status,
+            bytes: getBytesWritten(ctx)
+        });
+    }
+
+    /**
+     * Logs the copy-ups recorded on the journal of a mount, made on behalf
+     * of the requests.
+     */
+    public logRecord(mountPath: string, record: JournalRecord) {
+        if (record.op === 'copy-up') {
+            this.log('info', {
+                op: record.op,
+                user: record.user,
+                path: mountPath.replace(/\/$/, '') + record.path,
+                bytes: record.base && record.base.size
+            });
+        }
+    }
+
+    public log(level: AuditLevel, record: Pick<AuditRecord, Exclude<keyof AuditRecord, 'time' | 'level'>>) {
+        if (LEVELS.indexOf(level) > LEVELS.indexOf(this.config.level)) {
+            return;
+        }
+
+        const line = JSON.stringify({ time: new Date().toISOString(), level, ...record }) + '\n';
+
+        this.queue = this.queue.then(async () => {
+            if (this.config.path !== '-' && this.config.maxSize && this.size > 0 && this.size + line.length > this.config.maxSize) {
+                await this.rotate();
+            }
+
+            this.size += Buffer.byteLength(line);
+            this.stream!.write(line);
+        }).catch(err => console.error('Cannot write the audit log!', err));
+    }
+
+    /**
+     * Closes the file, resolving once the lines logged so far are written.
+     */
+    public close(): Promise<void> {
+        this.queue = this.queue.then(() => this.stream !== process.stdout ? endStream(this.stream!) : undefined);
+
+        return this.queue;
+    }
+
+    private async open(): Promise<void> {
+        if (this.config.path === '-') {
+            this.stream = process.stdout;
+            return;
+        }
+
+        this.size = await statAsync(this.config.path).then(stats => stats.size, () => 0);
+        this.stream = createWriteStream(this.config.path, { flags: 'a' });
+    }
+
+    /**
+     * Shifts the rotated files, dropping the oldest one, and starts a new
+     * file once the current one is written.
+     */
+    private async rotate(): Promise<void> {
+        const maxFiles = this.config.maxFiles !== undefined ? this.config.maxFiles : 5;
+
+        await endStream(this.stream!);
+
+        for (let i = maxFiles - 1; i >= 1; i--) {
+            await renameAsync(`${this.config.path}.${i}`, `${this.config.path}.${i + 1}`).catch(err => {
+                if (err.code !== 'ENOENT') {
+                    throw err;
+                }
+            });
+        }
+
+        if (maxFiles > 0) {
+            await renameAsync(this.config.path, `${this.config.path}.1`);
+        }
+
+        this.stream = createWriteStream(this.config.path, { flags: maxFiles > 0 ? 'a' : 'w' });
+        this.size = 0;
+    }
+}
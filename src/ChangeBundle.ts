@@ -0,0 +1,365 @@
+import { createWriteStream } from "fs";
+import { Readable, Writable } from "stream";
+import { createGzip } from "zlib";
+import { createHash } from "crypto";
+import MirrorRepository, { Change } from "./MirrorRepository";
+import { hashStream, readStream } from "./files";
+import Source from "./sources/Source";
+import TarSource from "./sources/TarSource";
+
+const MANIFEST = 'manifest.json';
+const VERSION = 1;
+const BLOCK = 512;
+
+/**
+ * What a path holds, to tell whether it is as expected: a directory, or a
+ * file with its size and SHA-256 hash.
+ */
+export interface Fingerprint {
+    directory: boolean;
+    size?: number;
+    sha256?: string;
+}
+
+export interface BundledChange extends Change {
+    /**
+     * Source version the change was made on, if there was one.
+     */
+    base?: Fingerprint;
+
+    /**
+     * Version after the change, unless it is a deletion.
+     */
+    result?: Fingerprint;
+}
+
+export interface BundleManifest {
+    bundle: 'wpm';
+    version: number;
+    created: string;
+    changes: BundledChange[];
+}
+
+/**
+ * Why a change cannot be imported as is: the source differs from the one
+ * it was made on, or the overlay changed the path otherwise.
+ */
+export type BundleConflict = 'source' | 'overlay';
+
+/**
+ * Portable archive of overlay changes, to move them to another changes
+ * directory of the same source. It is a tar archive, gzipped when named
+ * `.tar.gz` or `.tgz`, holding the files added or modified under `files/`
+ * and a `manifest.json` listing the changes with the fingerprints of their
+ * source version and result.
+ *
+ * Directories are fingerprinted by their type only, so the content of a
+ * deleted directory is not checked. WebDAV properties are not bundled.
+ */
+export default class ChangeBundle {
+    private readonly archive: TarSource;
+
+    constructor(public readonly bundlePath: string) {
+        this.archive = new TarSource(bundlePath);
+    }
+
+    /**
+     * Writes the bundle of some changes of a repository, as listed by
+     * `MirrorRepository.changes`.
+     */
+    public async export(repository: MirrorRepository, changes: Change[]): Promise<BundleManifest> {
+        const manifest: BundleManifest = { bundle: 'wpm', version: VERSION, created: new Date().toISOString(), changes: [] };
+        const writer = new TarWriter(this.bundlePath);
+
+        for (const change of changes) {
+            const bundled: BundledChange = { ...change, base: await fingerprint(repository.source, change.path) };
+
+            if (change.type !== 'deleted' && change.directory) {
+                bundled.result = { directory: true };
+            } else if (change.type !== 'deleted') {
+                const stats = await repository.stat(change.path);
+                const sha256 = await writer.addFile(`files${change.path}`, stats.size, stats.mtime, await repository.createReadStream(change.path));
+
+                bundled.result = { directory: false, size: stats.size, sha256 };
+            }
+
+            manifest.changes.push(bundled);
+        }
+
+        const content = Buffer.from(JSON.stringify(manifest, null, 2));
+
+        await writer.addFile(MANIFEST, content.length, new Date(), bufferStream(content));
+        await writer.end();
+
+        return manifest;
+    }
+
+    public async readManifest(): Promise<BundleManifest> {
+        const invalid = () => Object.assign(new Error(`Not a change bundle: ${this.bundlePath}`), { code: 'EINVAL' });
+        const content = await this.archive.createReadStream(`/${MANIFEST}`).then(readStream, err => {
+            throw err.code === 'ENOENT' ? invalid() : err;
+        });
+        const manifest: BundleManifest = JSON.parse(content.toString());
+
+        if (manifest.bundle !== 'wpm' || manifest.version !== VERSION || !Array.isArray(manifest.changes)) {
+            throw invalid();
+        }
+
+        manifest.changes.forEach(change => {
+            if (!/^(\/[^/]+)+$/.test(change.path) || change.path.split('/').some(segment => segment === '.' || segment === '..')) {
+                throw Object.assign(new Error(`Invalid path in bundle: ${change.path}`), { code: 'EINVAL' });
+            }
+        });
+
+        return manifest;
+    }
+
+    /**
+     * Checks whether a change can be imported into a repository: its source
+     * must be as when the change was made, and the mirror either as on the
+     * source or already changed the same way.
+     */
+    public async findConflict(repository: MirrorRepository, change: BundledChange): Promise<BundleConflict | undefined> {
+        if (!sameFingerprint(await fingerprint(repository.source, change.path), change.base)) {
+            return 'source';
+        }
+
+        const current = await fingerprint(repository, change.path);
+
+        return sameFingerprint(current, change.base) || sameFingerprint(current, change.result) ? undefined : 'overlay';
+    }
+
+    /**
+     * Makes the changes on the overlay of a repository. Paths already as
+     * changed are left untouched, so a bundle can be imported again.
+     */
+    public async import(repository: MirrorRepository, changes: BundledChange[]): Promise<void> {
+        // Deletions first, so that a path replaced by another type can be recreated.
+        const ordered = changes.filter(change => change.type === 'deleted').reverse()
+            .concat(changes.filter(change => change.type !== 'deleted'));
+
+        for (const change of ordered) {
+            const current = await fingerprint(repository, change.path);
+
+            if (sameFingerprint(current, change.result)) {
+                continue;
+            } else if (current && (!change.result || current.directory !== change.result.directory)) {
+                await removeResource(repository, change.path);
+            }
+
+            if (!change.result) {
+                continue;
+            } else if (change.result.directory) {
+                await repository.createDirectory(change.path);
+            } else {
+                await repository.prepareOverwrite(change.path);
+                await pipe(await this.archive.createReadStream(`/files${change.path}`), await repository.createWriteStream(change.path));
+                await repository.updateUsage(change.path);
+            }
+        }
+    }
+}
+
+/**
+ * Sequential writer of a ustar archive, with pax headers for long paths
+ * and large files.
+ */
+class TarWriter {
+    private readonly output: Writable;
+    private readonly closed: Promise<void>;
+
+    constructor(archivePath: string) {
+        const file = createWriteStream(archivePath);
+
+        this.closed = new Promise<void>((resolve, reject) => {
+            file.once('error', reject);
+            file.once('close', () => resolve());
+        });
+        this.closed.catch(() => undefined);
+
+        if (/\.(tgz|gz)$/i.test(archivePath)) {
+            this.output = createGzip();
+            this.output.pipe(file);
+        } else {
+            this.output = file;
+        }
+    }
+
+    /**
+     * Adds a file, resolving to the SHA-256 hash of its content.
+     */
+    public async addFile(name: string, size: number, mtime: Date, content: Readable): Promise<string> {
+        const pax: string[] = [];
+
+        if (Buffer.byteLength(name) > 100) {
+            pax.push(paxRecord('path', name));
+        }
+
+        if (size > 0o77777777777) {
+            pax.push(paxRecord('size', String(size)));
+        }
+
+        if (pax.length > 0) {
+            const records = Buffer.from(pax.join(''));
+
+            await this.write(createHeader('PaxHeader', records.length, mtime, 'x'));
+            await this.write(Buffer.concat([records, Buffer.alloc(padding(records.length))]));
+        }
+
+        await this.write(createHeader(name, size, mtime, '0'));
+
+        const hash = createHash('sha256');
+        let written = 0;
+
+        await new Promise<void>((resolve, reject) => {
+            content.on('data', (chunk: Buffer) => {
+                hash.update(chunk);
+                written += chunk.length;
+                content.pause();
+                this.write(chunk).then(() => content.resume(), err => {
+                    content.destroy();
+                    reject(err);
+                });
+            });
+            content.once('error', reject);
+            content.once('end', () => resolve());
+        });
+
+        if (written !== size) {
+            throw new Error(`File changed while archived: ${name}`);
+        }
+
+        await this.write(Buffer.alloc(padding(size)));
+
+        return hash.digest('hex');
+    }
+
+    /**
+     * Writes the end of the archive, resolving once the file is closed.
+     */
+    public async end(): Promise<void> {
+        await this.write(Buffer.alloc(2 * BLOCK));
+        this.output.end();
+        await this.closed;
+    }
+
+    private write(data: Buffer): Promise<void> {
+        if (this.output.write(data)) {
+            return Promise.resolve();
+        }
+
+        // The file may fail instead of draining.
+        return Promise.race([new Promise<void>(resolve => this.output.once('drain', resolve)), this.closed]);
+    }
+}
+
+/**
+ * Fingerprints a path of a tree, resolving to undefined when missing.
+ */
+async function fingerprint(tree: Pick<Source, 'stat' | 'createReadStream'>, remotePath: string): Promise<Fingerprint | undefined> {
+    try {
+        const stats = await tree.stat(remotePath);
+
+        if (stats.isDirectory()) {
+            return { directory: true };
+        }
+
+        return { directory: false, size: stats.size, sha256: await hashStream(await tree.createReadStream(remotePath)) };
+    } catch (err) {
+        if (err.code === 'ENOENT' || err.code === 'ENOTDIR') {
+            return undefined;
+        }
+
+        throw err;
+    }
+}
+
+function sameFingerprint(a: Fingerprint | undefined, b: Fingerprint | undefined): boolean {
+    if (!a || !b) {
+        return !a && !b;
+    }
+
+    return a.directory === b.directory && (a.directory || (a.size === b.size && a.sha256 === b.sha256));
+}
+
+/**
+ * Removes a resource from the mirror, with its descendants.
+ */
+async function removeResource(repository: MirrorRepository, remotePath: string): Promise<void> {
+    if ((await repository.stat(remotePath)).isDirectory()) {
+        for (const file of await repository.readDir(remotePath)) {
+            await removeResource(repository, `${remotePath}/${file}`);
+        }
+    }
+
+    await repository.removePath(remotePath);
+}
+
+function pipe(input: Readable, output: Writable): Promise<void> {
+    return new Promise((resolve, reject) => {
+        input.once('error', err => {
+            output.destroy();
+            reject(err);
+        });
+        output.once('error', reject);
+        output.once('finish', () => resolve());
+        input.pipe(output);
+    });
+}
+
+function bufferStream(data: Buffer): Readable {
+    const stream = new Readable({ read() {} });
+
+    stream.push(data);
+    stream.push(null);
+
+    return stream;
+}
+
+function createHeader(name: string, size: number, mtime: Date, type: string): Buffer {
+    const header = Buffer.alloc(BLOCK);
+
+    header.write(name, 0, 100);
+    writeNumber(header, 100, 8, 0o644);
+    writeNumber(header, 108, 8, 0);
+    writeNumber(header, 116, 8, 0);
+    writeNumber(header, 124, 12, Math.min(size, 0o77777777777));
+    writeNumber(header, 136, 12, Math.floor(mtime.getTime() / 1000));
+    header.write(type, 156);
+    header.write('ustar\0', 257);
+    header.write('00', 263);
+
+    let sum = 0;
+
+    header.fill(0x20, 148, 156);
+    header.forEach(byte => sum += byte);
+    header.write(`${('000000' + sum.toString(8)).slice(-6)}\0 `, 148);
+
+    return header;
+}
+
+/**
+ * Writes an octal number, zero-padded and null-terminated.
+ */
+function writeNumber(header: Buffer, offset: number, length: number, value: number) {
+    header.write(`${('0'.repeat(length) + value.toString(8)).slice(1 - length)}\0`, offset);
+}
+
+/**
+ * Formats a pax record, "<length> <key>=<value>\n", its length counting
+ * its own digits.
+ */
+function paxRecord(key: string, value: string): string {
+    const rest = Buffer.byteLength(` ${key}=${value}\n`);
+    let length = rest + String(rest).length;
+
+    while (rest + String(length).length !== length) {
+        length = rest + String(length).length;
+    }
+
+    return `${length} ${key}=${value}\n`;
+}
+
+function padding(size: number): number {
+    return (BLOCK - size % BLOCK) % BLOCK;
+}
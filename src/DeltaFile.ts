@@ -0,0 +1,369 @@
+import { open, close, read, write, stat, readFile, writeFile, rename, copyFile, createReadStream } from "fs";
+import * as path from "path";
+import { promisify } from "util";
+import { Readable, Writable } from "stream";
+import { mkDirByPath, concatStreams, readStream } from "./files";
+import Source, { SourceStats, ByteRange } from "./sources/Source";
+
+const openAsync = promisify(open), closeAsync = promisify(close), readAsync = promisify(read), writeAsync = promisify(write);
+const statAsync = promisify(stat), readFileAsync = promisify(readFile), writeFileAsync = promisify(writeFile);
+const renameAsync = promisify(rename), copyFileAsync = promisify(copyFile);
+
+/**
+ * Name of the directory holding the delta files of a local directory, as
+ * `<dir>/.wpm-deltas/<name>`. It is left out of directory listings.
+ */
+export const DELTAS_DIR = '.wpm-deltas';
+
+export const DELTA_BLOCK_SIZE = 64 * 1024;
+
+const VERSION = 1;
+
+/**
+ * Block map of a delta file, saved as `map.json` in its directory.
+ */
+interface DeltaMap {
+    version: number;
+
+    /**
+     * Path of the source file showing through the blocks not stored.
+     */
+    source: string;
+
+    /**
+     * Bytes of the source file still showing through: its size, or less
+     * once the file was truncated.
+     */
+    sourceSize: number;
+    size: number;
+    mode: number;
+    mtime: string;
+    birthtime: string;
+    blockSize: number;
+
+    /**
+     * Index of the block stored at each slot of the blocks file, or -1 for
+     * a free slot.
+     */
+    blocks: number[];
+}
+
+/**
+ * Local version of a large file stored as the blocks written to it, in a
+ * `blocks` file, and a map of these blocks. Reads merge the stored blocks
+ * with the source file, so writing a few bytes of a huge file stores a few
+ * blocks instead of a whole copy. As the other blocks are read from the
+ * source, a change of the source shows through (see
+ * `MirrorRepository.drift`).
+ */
+export default class DeltaFile {
+    private readonly slots = new Map<number, number>();
+    private saving: Promise<void> = Promise.resolve();
+
+    private constructor(public readonly path: string, private readonly map: DeltaMap) {
+        map.blocks.forEach((index, slot) => index >= 0 && this.slots.set(index, slot));
+    }
+
+    /**
+     * Creates a delta file of a source file, without any block yet.
+     */
+    public static async create(deltaPath: string, sourcePath: string, stats: SourceStats): Promise<DeltaFile> {
+        const delta = new DeltaFile(deltaPath, {
+            version: VERSION,
+            source: sourcePath,
+            sourceSize: stats.size,
+            size: stats.size,
+            mode: stats.mode,
+            mtime: stats.mtime.toISOString(),
+            birthtime: stats.birthtime.toISOString(),
+            blockSize: DELTA_BLOCK_SIZE,
+            blocks: []
+        });
+
+        await mkDirByPath(deltaPath);
+        await writeFileAsync(delta.blocksPath, '');
+        await delta.save();
+
+        return delta;
+    }
+
+    public static async read(deltaPath: string): Promise<DeltaFile> {
+        const map: DeltaMap = JSON.parse((await readFileAsync(path.join(deltaPath, 'map.json'))).toString());
+
+        if (map.version !== VERSION) {
+            throw Object.assign(new Error(`Unsupported delta version: ${deltaPath}`), { code: 'EINVAL' });
+        }
+
+        return new DeltaFile(deltaPath, map);
+    }
+
+    public get source(): string {
+        return this.map.source;
+    }
+
+    public get stats(): SourceStats {
+        return {
+            size: this.map.size,
+            mode: this.map.mode,
+            mtime: new Date(this.map.mtime),
+            birthtime: new Date(this.map.birthtime),
+            isFile: () => true,
+            isDirectory: () => false
+        };
+    }
+
+    /**
+     * Bytes taken by the stored blocks.
+     */
+    public get storedBytes(): number {
+        return this.slots.size * this.map.blockSize;
+    }
+
+    /**
+     * Bytes of the blocks that writing a range would add.
+     */
+    public getAddedBytes(range: ByteRange): number {
+        let added = 0;
+
+        for (let index = Math.floor(range.start / this.map.blockSize); index <= Math.floor(range.end / this.map.blockSize); index++) {
+            added += this.slots.has(index) ? 0 : this.map.blockSize;
+        }
+
+        return added;
+    }
+
+    /**
+     * Reads the file, or a range of it, merging the stored blocks with the
+     * source file.
+     */
+    public createReadStream(source: Source, range?: ByteRange): Readable {
+        const blockSize = this.map.blockSize;
+        const end = Math.min(range ? range.end : Infinity, this.map.size - 1);
+        const segments: { from: 'blocks' | 'source' | 'zeros', start: number, end: number }[] = [];
+
+        for (let position = range ? range.start : 0; position <= end;) {
+            const index = Math.floor(position / blockSize);
+            const blockEnd = Math.min((index + 1) * blockSize - 1, end);
+            const slot = this.slots.get(index);
+            let segment: { from: 'blocks' | 'source' | 'zeros', start: number, end: number };
+
+            if (slot !== undefined) {
+                segment = { from: 'blocks', start: slot * blockSize + position - index * blockSize, end: slot * blockSize + blockEnd - index * blockSize };
+            } else if (position < this.map.sourceSize) {
+                segment = { from: 'source', start: position, end: Math.min(blockEnd, this.map.sourceSize - 1) };
+            } else {
+                segment = { from: 'zeros', start: position, end: blockEnd };
+            }
+
+            position += segment.end - segment.start + 1;
+
+            const last = segments[segments.length - 1];
+
+            if (last && last.from === segment.from && last.end + 1 === segment.start) {
+                last.end = segment.end;
+            } else {
+                segments.push(segment);
+            }
+        }
+
+        return concatStreams(segments.map(segment => () => {
+            switch (segment.from) {
+                case 'blocks':
+                    return createReadStream(this.blocksPath, { start: segment.start, end: segment.end });
+                case 'source':
+                    return source.createReadStream(this.map.source, { start: segment.start, end: segment.end });
+                default:
+                    return zeros(segment.end - segment.start + 1);
+            }
+        }));
+    }
+
+    /**
+     * Opens the file for writing a range of its bytes. Each block written
+     * is read first, from the blocks or from the source, unless the range
+     * covers all of it.
+     *
+     * @param size New size of the file, if it changes.
+     */
+    public async createWriteStream(source: Source, range: ByteRange, size?: number): Promise<Writable> {
+        const blockSize = this.map.blockSize;
+        let position = range.start;
+        let block: { index: number, data: Buffer } | undefined;
+
+        if (size !== undefined) {
+            await this.truncate(size);
+        }
+
+        await this.detach();
+
+        const fd = await openAsync(this.blocksPath, 'r+');
+        let closing: Promise<void> | undefined;
+        const closeFile = () => closing = closing || closeAsync(fd);
+        const flush = async () => {
+            if (block) {
+                await writeAsync(fd, block.data, 0, blockSize, this.allocate(block.index) * blockSize);
+                block = undefined;
+            }
+        };
+        const load = async (index: number): Promise<Buffer> => {
+            const data = Buffer.alloc(blockSize);
+            const slot = this.slots.get(index);
+            const start = index * blockSize, end = Math.min(start + blockSize, this.map.sourceSize) - 1;
+
+            if (slot !== undefined) {
+                await readAsync(fd, data, 0, blockSize, slot * blockSize);
+            } else if (end >= start && (range.start > start || range.end < start + blockSize - 1)) {
+                (await readStream(await source.createReadStream(this.map.source, { start, end }))).copy(data);
+            }
+
+            return data;
+        };
+        const writeChunk = async (chunk: Buffer) => {
+            for (let offset = 0; offset < chunk.length;) {
+                const index = Math.floor(position / blockSize);
+                const from = position - index * blockSize;
+                const length = Math.min(blockSize - from, chunk.length - offset);
+
+                if (!block || block.index !== index) {
+                    await flush();
+                    block = { index, data: await load(index) };
+                }
+
+                chunk.copy(block.data, from, offset, offset + length);
+                offset += length;
+                position += length;
+            }
+        };
+
+        return new Writable({
+            write: (chunk: Buffer, encoding: string, callback: Function) => {
+                writeChunk(chunk).then(() => callback(), err => callback(err));
+            },
+            final: callback => {
+                flush()
+                    .then(closeFile)
+                    .then(() => {
+                        this.map.size = Math.max(this.map.size, position);
+                        this.map.mtime = new Date().toISOString();
+                        return this.save();
+                    })
+                    .then(() => callback(), callback);
+            },
+            destroy: (err, callback) => {
+                // Blocks already written are kept, as the map still tells the previous ones.
+                closeFile().then(() => callback(err || undefined), () => callback(err || undefined));
+            }
+        });
+    }
+
+    /**
+     * Changes the size of the file. The stored blocks past the new size are
+     * dropped, and the source no longer shows through past it.
+     */
+    public async truncate(size: number): Promise<void> {
+        const blockSize = this.map.blockSize;
+        const index = Math.floor(size / blockSize);
+        const slot = this.slots.get(index);
+
+        this.map.sourceSize = Math.min(this.map.sourceSize, size);
+        this.map.blocks.forEach((blockIndex, blockSlot) => {
+            if (blockIndex > index || (blockIndex === index && size % blockSize === 0)) {
+                this.map.blocks[blockSlot] = -1;
+                this.slots.delete(blockIndex);
+            }
+        });
+
+        if (slot !== undefined && size % blockSize !== 0) {
+            // Bytes past the end read as zeros once the file grows again.
+            await this.detach();
+
+            const fd = await openAsync(this.blocksPath, 'r+');
+
+            try {
+                await writeAsync(fd, Buffer.alloc(blockSize - size % blockSize), 0, blockSize - size % blockSize, slot * blockSize + size % blockSize);
+            } finally {
+                await closeAsync(fd);
+            }
+        }
+
+        this.map.size = size;
+        this.map.mtime = new Date().toISOString();
+        await this.save();
+    }
+
+    /**
+     * Copies the delta file, with its blocks, to another directory.
+     */
+    public async copy(deltaPath: string): Promise<DeltaFile> {
+        const copy = new DeltaFile(deltaPath, JSON.parse(JSON.stringify(this.map)));
+
+        await mkDirByPath(deltaPath);
+        await copyFileAsync(this.blocksPath, copy.blocksPath);
+        await copy.save();
+
+        return copy;
+    }
+
+    private get blocksPath(): string {
+        return path.join(this.path, 'blocks');
+    }
+
+    private get mapPath(): string {
+        return path.join(this.path, 'map.json');
+    }
+
+    /**
+     * Gets the slot of a block, allocating a free one to a new block.
+     */
+    private allocate(index: number): number {
+        let slot = this.slots.get(index);
+
+        if (slot === undefined) {
+            slot = this.map.blocks.indexOf(-1);
+            slot = slot < 0 ? this.map.blocks.length : slot;
+            this.map.blocks[slot] = index;
+            this.slots.set(index, slot);
+        }
+
+        return slot;
+    }
+
+    /**
+     * Copies the blocks file before writing it when it is shared with a
+     * snapshot (hard link). The map is always replaced, never written.
+     */
+    private async detach(): Promise<void> {
+        if ((await statAsync(this.blocksPath)).nlink > 1) {
+            await copyFileAsync(this.blocksPath, `${this.blocksPath}.wpm-detach`);
+            await renameAsync(`${this.blocksPath}.wpm-detach`, this.blocksPath);
+        }
+    }
+
+    /**
+     * Replaces the map file. Saves are done one after the other.
+     */
+    private save(): Promise<void> {
+        const save = this.saving.then(async () => {
+            await writeFileAsync(`${this.mapPath}.tmp`, JSON.stringify(this.map));
+            await renameAsync(`${this.mapPath}.tmp`, this.mapPath);
+        });
+
+        this.saving = save.catch(() => undefined);
+
+        return save;
+    }
+}
+
+/**
+ * Streams a number of zero bytes.
+ */
+function zeros(length: number): Readable {
+    return new Readable({
+        read() {
+            const size = Math.min(length, DELTA_BLOCK_SIZE);
+
+            length -= size;
+            this.push(size > 0 ? Buffer.alloc(size) : null);
+        }
+    });
+}
@@ -0,0 +1,186 @@
+import { open, close, readFile, write, fsync, fstat, rename, stat } from "fs";
+import { promisify } from "util";
+
+const openAsync = promisify(open), closeAsync = promisify(close), readFileAsync = promisify(readFile), writeAsync = promisify(write);
+const fsyncAsync = promisify(fsync), fstatAsync = promisify(fstat), renameAsync = promisify(rename), statAsync = promisify(stat);
+
+export type JournalOperation = 'delete' | 'copy-up' | 'create' | 'move';
+
+/**
+ * Version of a source file when it was copied up, to tell whether the
+ * source changed since. `path` is the source path, which a moved copy
+ * keeps. Delta copy-ups, of files too large to hash then, have no hash.
+ */
+export interface SourceVersion {
+    path: string;
+    size: number;
+    mtime: string;
+    sha256?: string;
+}
+
+/**
+ * A change recorded on the journal. A move records its origin in `from`,
+ * and a file copy-up the version of the source it copied in `base`.
+ */
+export interface JournalRecord {
+    op: JournalOperation;
+    path: string;
+    from?: string;
+    base?: SourceVersion;
+    time: string;
+    user?: string;
+}
+
+const VERSION = 1;
+const HEADER = { journal: 'wpm', version: VERSION };
+
+/**
+ * Append-only journal of the overlay changes, stored as JSON lines after a
+ * version header. Each record is synced to disk before the change goes on,
+ * and a record torn by a crash is dropped when the journal is read.
+ *
+ * The former `deleted` file, a plain list of paths, is read as a list of
+ * delete records.
+ */
+export default class Journal {
+    private fd?: Promise<number>;
+
+    /**
+     * Last append or rewrite, which the next one waits for.
+     */
+    private queue: Promise<any> = Promise.resolve();
+
+    constructor(public readonly path: string) {
+    }
+
+    /**
+     * Reads the records of a journal, in either format. A missing journal
+     * has no records.
+     */
+    public static async read(journalPath: string): Promise<JournalRecord[]> {
+        let content: string;
+
+        try {
+            content = (await readFileAsync(journalPath)).toString();
+        } catch (err) {
+            if (err.code === 'ENOENT') {
+                return [];
+            }
+
+            throw err;
+        }
+
+        const lines = content.split('\n').filter(line => line.trim().length > 0);
+
+        if (lines.length === 0) {
+            return [];
+        } else if (!lines[0].startsWith('{')) {
+            const time = (await statAsync(journalPath)).mtime.toISOString();
+
+            return lines.map(line => ({ op: 'delete', path: line.trim(), time } as JournalRecord));
+        }
+
+        const header = parseLine(lines[0]);
+
+        if (!header || header.version !== VERSION) {
+            throw Object.assign(new Error(`Unsupported journal version: ${journalPath}`), { code: 'EINVAL' });
+        }
+
+        return lines.slice(1)
+            .map(parseLine)
+            .filter(record => record && typeof record.op === 'string' && typeof record.path === 'string');
+    }
+
+    /**
+     * Replaces the journal, atomically, by the records given for its current
+     * ones. Appends wait meanwhile, and go to the new journal.
+     *
+     * @param compact Gives the new records, from the current ones.
+     * @returns The new records.
+     */
+    public rewrite(compact: () => Promise<JournalRecord[]>): Promise<JournalRecord[]> {
+        return this.enqueue(async () => {
+            const records = await compact();
+            const tmpPath = `${this.path}.tmp`;
+            const fd = await openAsync(tmpPath, 'w');
+
+            try {
+                await writeAsync(fd, [HEADER, ...records].map(record => JSON.stringify(record) + '\n').join(''));
+                await fsyncAsync(fd);
+            } finally {
+                await closeAsync(fd);
+            }
+
+            await renameAsync(tmpPath, this.path);
+            await this.closeFile();
+
+            return records;
+        });
+    }
+
+    /**
+     * Appends a record, opening the journal on the first one, and writing its
+     * header when it is new.
+     */
+    public append(record: JournalRecord): Promise<void> {
+        return this.enqueue(async () => {
+            if (!this.fd) {
+                this.fd = openJournal(this.path);
+                this.fd.catch(() => {
+                    this.fd = undefined;
+                });
+            }
+
+            const fd = await this.fd;
+
+            await writeAsync(fd, JSON.stringify(record) + '\n');
+            await fsyncAsync(fd);
+        });
+    }
+
+    public close(): Promise<void> {
+        return this.enqueue(() => this.closeFile());
+    }
+
+    private async closeFile(): Promise<void> {
+        const fd = this.fd;
+
+        this.fd = undefined;
+
+        if (fd) {
+            await closeAsync(await fd);
+        }
+    }
+
+    private enqueue<T>(task: () => Promise<T>): Promise<T> {
+        const result = this.queue.then(task);
+
+        this.queue = result.catch(() => undefined);
+
+        return result;
+    }
+}
+
+async function openJournal(journalPath: string): Promise<number> {
+    const fd = await openAsync(journalPath, 'a');
+
+    try {
+        if ((await fstatAsync(fd)).size === 0) {
+            await writeAsync(fd, JSON.stringify(HEADER) + '\n');
+        }
+    } catch (err) {
+        await closeAsync(fd);
+        throw err;
+    }
+
+    return fd;
+}
+
+function parseLine(line: string): any {
+    try {
+        return JSON.parse(line);
+    } catch (err) {
+        // Torn write.
+        return undefined;
+    }
+}
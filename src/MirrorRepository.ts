@@ -1,147 +1,751 @@
-import { stat, unlink, rmdir, copyFile, readdir, mkdir, readdirSync, mkdirSync, readFileSync, accessSync, openSync, write, existsSync } from "fs";
+import { rmdir, rename, readdir } from "fs";
 import * as path from "path";
+import { promisify } from "util";
+import { Readable, Writable } from "stream";
+import { EventEmitter } from "events";
+import { mkDirByPath, removeTree, sameStreams, hashStream } from "./files";
+import Source, { SourceStats, ByteRange, sourceError } from "./sources/Source";
+import LayeredSource from "./sources/LayeredSource";
+import { openSource } from "./sources";
+import { JournalOperation, JournalRecord, SourceVersion } from "./Journal";
+import DeltaFile from "./DeltaFile";
+import OverlayIndex, { IndexEntry } from "./OverlayIndex";
+import OverlayStorage from "./storage/OverlayStorage";
+import { openStorage } from "./storage";
+
+const rmdirAsync = promisify(rmdir), renameAsync = promisify(rename), readdirAsync = promisify(readdir);
+
+export type ChangeType = 'added' | 'modified' | 'deleted';
+
+/**
+ * A path changed on the overlay, relative to the read-only source.
+ */
+export interface Change {
+    path: string;
+    type: ChangeType;
+    directory: boolean;
+}
+
+/**
+ * How the source of a copied up file changed since its copy-up.
+ */
+export type Drift = 'modified' | 'deleted';
+
+/**
+ * A local file whose source changed since its copy-up: the local version
+ * shadows a newer original.
+ */
+export interface Conflict {
+    path: string;
+    drift: Drift;
+    base: SourceVersion;
+}
+
+/**
+ * Limits of the overlay. Missing limits are not enforced.
+ */
+export interface Quota {
+    bytes?: number;
+    files?: number;
+}
+
+/**
+ * Size of the local files of the overlay.
+ */
+export interface Usage {
+    bytes: number;
+    files: number;
+}
+
+/**
+ * What an overlay holds, as reported to administrators.
+ */
+export interface OverlayStats {
+    usage: Usage;
+
+    /**
+     * Local files and directories.
+     */
+    entries: number;
+    whiteouts: number;
+
+    /**
+     * Paths being copied up.
+     */
+    copyUps: string[];
+}
 
 /**
  * A read-write mirror repository, that mirror a read-only filesystem.
+ *
+ * The read-only filesystem may be a stack of directories or archives
+ * (lower layers), resolved top-down as in overlayfs (see `LayeredSource`).
+ *
+ * The local versions and the journal are kept by an overlay storage: a
+ * changes directory, or memory (see `openStorage`). What the overlay holds
+ * is looked up in its index (see `OverlayIndex`), loaded as needed.
+ *
+ * Files at least as large as the delta threshold are copied up as delta
+ * files, storing only the blocks written (see `DeltaFile`), when the
+ * storage can keep them.
+ *
+ * Emits `copy-up-start` with the path and the user of each copy-up as it
+ * starts, and `record` with each record appended to the journal (which
+ * tells the copy-up finished).
  */
-export default class MirrorRepository {
-    private readonly local = new Set<string>();
-    private readonly deletedFileDescriptor: number;
+export default class MirrorRepository extends EventEmitter {
+    /**
+     * Lower layers, from the topmost to the bottommost.
+     */
+    public readonly remotePathMappings: string[];
+    public readonly localPathMapping: string;
+    public readonly source: Source;
+    public readonly storage: OverlayStorage;
+    private readonly index: OverlayIndex;
+    private loaded: Promise<void>;
+
+    /**
+     * Compaction of the journal started by a load reusing the index.
+     */
+    private compacting: Promise<void> = Promise.resolve();
+
+    /**
+     * Delta files read, by their path.
+     */
+    private readonly deltas = new Map<string, DeltaFile>();
+
+    /**
+     * Hashes of the source files, valid while their size and mtime stay.
+     */
+    private readonly sourceHashes = new Map<string, { size: number, mtime: string, sha256: string }>();
+
+    /**
+     * Limits of the overlay, checked before copying up, creating, copying or
+     * moving files. Writes are limited by the caller (see `getWritableBytes`).
+     */
+    public quota: Quota = {};
+
+    /**
+     * Size from which source files are copied up as delta files, instead of
+     * being copied whole. Undefined to always copy them whole.
+     */
+    public deltaThreshold?: number;
+    /**
+     * Whether paths may be given in any case, for the clients of
+     * case-insensitive systems (see `resolvePath`). Names keep the case
+     * they were created with.
+     */
+    public caseInsensitive = false;
     private readonly mirroring : {
-        [path: string]: Promise<never>
+        [path: string]: Promise<void>
     } = {};
 
-    constructor(public readonly remotePathMapping: string, public readonly localPathMapping: string, public readonly dirSeparator: string = path.sep) {
-        mkDirByPathSync(this.getLocalPath('/'));
+    /**
+     * @param localPathMapping Changes directory, or the storage of the
+     * overlay.
+     * @param source Source opened from the lower layers, when shared with
+     * other repositories (see `UserRepositories`).
+     */
+    constructor(remotePathMapping: string | string[], localPathMapping: string | OverlayStorage, public readonly dirSeparator: string = path.sep, source?: Source) {
+        super();
+        this.remotePathMappings = typeof remotePathMapping === 'string' ? [remotePathMapping] : remotePathMapping;
+        this.source = source || new LayeredSource(this.remotePathMappings.map(openSource));
+        this.storage = typeof localPathMapping === 'string' ? openStorage(localPathMapping, dirSeparator) : localPathMapping;
+        this.localPathMapping = this.storage.location;
+        this.index = new OverlayIndex(this.storage);
+        this.loaded = this.load();
+        this.loaded.catch(err => console.error('Cannot load the changes!', this.localPathMapping, err.message));
+    }
 
-        let entries = readdirSync(this.getLocalPath('/'));
+    /**
+     * Resolves once the repository is loaded, as operations wait for.
+     */
+    public ready(): Promise<void> {
+        return this.loaded;
+    }
 
-        while (entries.length > 0) {
-            let entry = entries.pop()!;
+    /**
+     * Discards the in-memory state and loads it again from the storage,
+     * rebuilding the index, after it was replaced (e.g. by a snapshot
+     * rollback).
+     */
+    public reload(): Promise<void> {
+        this.deltas.clear();
+        this.loaded = this.storage.close().then(() => this.load(false));
 
-            try {
-                const children = readdirSync(this.getLocalPath(entry)).map(s => `${entry}/${s}`);
-                entries = entries.concat(children);
-            } catch (err) {
-                if (err.code === 'ENOTDIR') {
-                    this.local.add('/' + entry);
-                } else {
-                    throw err;
+        return this.loaded;
+    }
+
+    /**
+     * Writes the index, for the next load to reuse it, and releases the
+     * storage. After a failed load, only the storage is released: the index
+     * may not be whole, or be another process's.
+     */
+    public async close(): Promise<void> {
+        if (await this.loaded.then(() => true, () => false)) {
+            await this.compacting;
+            await this.index.close();
+        }
+
+        await this.storage.close();
+    }
+
+    /**
+     * Locks the changes for this process, then opens the index, or rebuilds
+     * it, when it was not closed, by walking the overlay and replaying the
+     * journal. What interrupted writes left behind is removed first, looking
+     * through the whole overlay only when the server may have crashed, and
+     * the journal is checked against the index, then compacted: once loaded
+     * when the index is reused, as it walks the whole index.
+     */
+    private async load(reuseIndex = true): Promise<void> {
+        await this.storage.lock();
+
+        const reused = await this.index.open(reuseIndex);
+
+        for (const removed of await this.storage.recover(!reused)) {
+            console.warn('Removed what an interrupted write left:', removed);
+        }
+
+        if (reused) {
+            const records = await this.storage.readJournal();
+
+            await this.checkJournal(records);
+            console.info(`There is ${this.index.usage.files} local files.`);
+
+            if (records.length > 0) {
+                this.compacting = this.storage.rewriteJournal(records => this.compactRecords(records)).then(
+                    compacted => console.info(`Journal compacted from ${records.length} to ${compacted.length} records.`),
+                    err => console.error('Cannot compact the journal!', this.localPathMapping, err.message));
+            }
+
+            return;
+        }
+
+        for (const entry of await this.storage.listEntries()) {
+            const size = entry.type === 'delta' ? (await this.loadDelta(entry.path)).storedBytes : entry.size;
+
+            await this.index.update(entry.path, { type: entry.type, size, opaque: entry.opaque || undefined });
+        }
+
+        console.info(`There is ${this.index.usage.files} local files.`);
+
+        const records = await this.storage.rewriteJournal(async records => {
+            await this.checkJournal(records);
+
+            for (const record of records) {
+                await this.index.update(record.path, { local: true });
+
+                if (record.from) {
+                    await this.index.update(record.from, { local: true });
                 }
+
+                await this.trackCopyUp(record);
+            }
+
+            return this.compactRecords(records);
+        });
+
+        console.info(`There is ${records.length} journal records.`);
+    }
+
+    /**
+     * Warns of the journal records that the local versions do not match, as
+     * left by a crash between changing the overlay and recording it: a path
+     * changed on the journal without local version, now seen as deleted, or
+     * a local version of a path deleted on the journal. Only the latest
+     * record of a path and its ancestors counts.
+     */
+    private async checkJournal(records: JournalRecord[]): Promise<void> {
+        // Whether each path was last recorded as changed, or as removed.
+        const changed = new Map<string, boolean>();
+        const remove = (remotePath: string) => {
+            entriesUnder(changed.keys(), remotePath).forEach(entry => changed.delete(entry));
+            changed.set(remotePath, false);
+        };
+
+        records.forEach(record => {
+            if (record.op === 'delete') {
+                remove(record.path);
+                return;
+            } else if (record.from) {
+                remove(record.from);
+            }
+
+            changed.set(record.path, true);
+        });
+
+        for (const [remotePath, local] of Array.from(changed)) {
+            const entry = await this.index.get(remotePath);
+
+            if (local && !(entry && entry.type)) {
+                console.warn('Changed on the journal, but without local version:', remotePath);
+            } else if (!local && entry && entry.type) {
+                console.warn('Stored, but deleted on the journal:', remotePath);
+            }
+        }
+    }
+
+    /**
+     * Rewrites the journal with only the records still needed: the deletion
+     * of every local entry without local version, and the copy-up of every
+     * local file with the source version it copied. Other entries are found
+     * again by walking the overlay, when the index is rebuilt.
+     *
+     * @returns Number of records kept.
+     */
+    public async compact(): Promise<number> {
+        await this.loaded;
+
+        return (await this.storage.rewriteJournal(records => this.compactRecords(records))).length;
+    }
+
+    private async compactRecords(records: JournalRecord[]): Promise<JournalRecord[]> {
+        const latest = new Map<string, JournalRecord>();
+        const time = new Date().toISOString();
+        const entries = (await this.index.walk('/')).sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0);
+
+        records.forEach(record => {
+            latest.set(record.path, record);
+
+            if (record.from) {
+                latest.set(record.from, record);
             }
+        });
+
+        const deletes = entries
+            .filter(([, entry]) => entry.local && !entry.type)
+            .map(([remotePath]) => {
+                const record = latest.get(remotePath);
+
+                return { op: 'delete', path: remotePath, time: record ? record.time : time, user: record && record.user } as JournalRecord;
+            });
+        const copyUps = entries
+            .filter(([, entry]) => entry.copyUp && entry.type)
+            .map(([remotePath, entry]) => ({ ...entry.copyUp!, path: remotePath }));
+
+        return deletes.concat(copyUps);
+    }
+
+    /**
+     * Tells how the source of a local file changed since its copy-up, if it
+     * did. Files created locally have no source to drift from.
+     */
+    public async drift(remotePath: string): Promise<Drift | undefined> {
+        const entry = await this.getEntry(remotePath);
+        const record = entry && entry.copyUp;
+
+        if (!record) {
+            return undefined;
         }
 
-        console.info(`There is ${this.local.size} local files.`);
+        const base = record.base!;
+        const stats = await this.statSource(base.path);
 
-        let deleted: string[];
+        if (!stats || !stats.isFile()) {
+            return 'deleted';
+        } else if (stats.size !== base.size) {
+            return 'modified';
+        } else if (stats.mtime.toISOString() === base.mtime) {
+            return undefined;
+        } else if (!base.sha256) {
+            return 'modified';
+        }
 
-        try {
-            deleted = readFileSync(`${localPathMapping}${dirSeparator}deleted`).toString().split('\n');
-        } catch (e) {
-            deleted = [];
+        // Touched, but maybe not changed.
+        return await this.hashSource(base.path, stats) !== base.sha256 ? 'modified' : undefined;
+    }
+
+    /**
+     * Lists the local files whose source changed since their copy-up.
+     */
+    public async conflicts(): Promise<Conflict[]> {
+        const conflicts: Conflict[] = [];
+
+        await this.loaded;
+
+        const entries = (await this.index.walk('/'))
+            .filter(([, entry]) => entry.copyUp && entry.type)
+            .sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0);
+
+        for (const [remotePath, entry] of entries) {
+            const drift = await this.drift(remotePath);
+
+            if (drift) {
+                conflicts.push({ path: remotePath, drift, base: entry.copyUp!.base! });
+            }
         }
 
-        this.deletedFileDescriptor = openSync(`${localPathMapping}${dirSeparator}deleted`, 'a')
+        return conflicts;
+    }
+
+    /**
+     * Size of the local files.
+     */
+    public get usage(): Usage {
+        return this.index.usage;
+    }
+
+    /**
+     * Counts the entries of the overlay, reading the whole index.
+     */
+    public async stats(): Promise<OverlayStats> {
+        await this.loaded;
+
+        const stats: OverlayStats = { usage: this.index.usage, entries: 0, whiteouts: 0, copyUps: Object.keys(this.mirroring) };
+
+        for (const [, entry] of await this.index.walk('/')) {
+            if (entry.type) {
+                stats.entries++;
+            } else if (entry.local) {
+                stats.whiteouts++;
+            }
+        }
+
+        return stats;
+    }
+
+    /**
+     * Bytes that may be written to a local file within the quota, replacing
+     * its current content.
+     */
+    public async getWritableBytes(remotePath: string): Promise<number> {
+        if (this.quota.bytes === undefined) {
+            return Infinity;
+        }
+
+        const entry = await this.getEntry(remotePath);
+
+        return Math.max(0, this.quota.bytes - this.index.usage.bytes + (entry && entry.size || 0));
+    }
+
+    /**
+     * Counts a write to a local file, once it is closed. Its ETag tells the
+     * new version apart, even when written within the same millisecond with
+     * the same size (see `getWrites`).
+     */
+    public async countWrite(remotePath: string): Promise<void> {
+        const entry = await this.getEntry(remotePath);
+
+        if (entry && entry.type) {
+            await this.index.update(remotePath, { writes: (entry.writes || 0) + 1 });
+        }
+    }
+
+    /**
+     * Number of writes made to a local file since it was copied up or
+     * created, or since the index was last rebuilt.
+     */
+    public async getWrites(remotePath: string): Promise<number> {
+        const entry = await this.getEntry(remotePath);
+
+        return entry && entry.writes || 0;
+    }
+
+    /**
+     * Indexes the local versions at or under a path again, after they
+     * changed, accounting their size. Missing ancestors created for them
+     * are indexed too.
+     */
+    public async updateUsage(remotePath: string): Promise<void> {
+        const found = new Map<string, IndexEntry>();
+        const walk = async (entry: string) => {
+            const stats = await this.storage.stat(entry).catch(ignoreMissing);
+
+            if (stats && stats.isDirectory()) {
+                found.set(entry, { type: 'directory', size: undefined, opaque: await this.storage.isOpaque(entry) || undefined });
+
+                for (const file of await this.storage.readDir(entry)) {
+                    await walk(joinRemotePath(entry, file));
+                }
+
+                for (const file of await this.readDeltasDir(entry)) {
+                    found.set(joinRemotePath(entry, file), { type: 'delta', size: (await this.loadDelta(joinRemotePath(entry, file))).storedBytes, opaque: undefined });
+                }
+            } else if (stats) {
+                found.set(entry, { type: 'file', size: stats.size, opaque: undefined });
+            }
+        };
+
+        await this.loaded;
+        await walk(remotePath);
+
+        if (!found.has(remotePath) && this.storage.getDeltasPath) {
+            const delta = await this.loadDelta(remotePath).catch(ignoreMissing);
+
+            if (delta) {
+                found.set(remotePath, { type: 'delta', size: delta.storedBytes, opaque: undefined });
+            }
+        }
+
+        for (const [entry] of await this.index.walk(remotePath)) {
+            if (!found.has(entry)) {
+                await this.index.update(entry, { type: undefined, size: undefined, opaque: undefined });
+            }
+        }
+
+        for (const [entry, local] of Array.from(found)) {
+            await this.index.update(entry, local);
+        }
+
+        for (let ancestor = path.posix.dirname(remotePath); ancestor !== '/'; ancestor = path.posix.dirname(ancestor)) {
+            const entry = await this.index.get(ancestor);
+            const stats = entry && entry.type ? undefined : await this.storage.stat(ancestor).catch(ignoreMissing);
+
+            if (!stats || !stats.isDirectory()) {
+                break;
+            }
+
+            await this.index.update(ancestor, { type: 'directory' });
+        }
+    }
+
+    /**
+     * Fails with `EDQUOT` when adding files to the overlay would exceed its
+     * quota.
+     */
+    private checkQuota(added: Usage) {
+        const usage = this.index.usage;
+
+        if ((this.quota.bytes !== undefined && usage.bytes + added.bytes > this.quota.bytes)
+            || (this.quota.files !== undefined && usage.files + added.files > this.quota.files)) {
+            throw Object.assign(new Error(`Overlay quota exceeded: ${this.localPathMapping}`), { code: 'EDQUOT' });
+        }
+    }
+
+    /**
+     * Measures the files a copy or a move would add to the overlay: all the
+     * files of a copy, but only the source files of a move, as the local
+     * ones are renamed. Source files stored as delta files add no bytes.
+     */
+    private async measure(remotePath: string, depth: number, sourceOnly: boolean): Promise<Usage> {
+        const stats = await this.stat(remotePath);
+        const usage: Usage = { bytes: 0, files: 0 };
+
+        if (!stats.isDirectory()) {
+            const local = await this.statLocal(remotePath);
+            const delta = await this.getDelta(remotePath);
+
+            if (sourceOnly && local) {
+                return usage;
+            }
+
+            return { bytes: delta ? delta.storedBytes : local || !this.storesDelta(stats) ? stats.size : 0, files: 1 };
+        } else if (depth !== 0) {
+            for (const file of await this.readDir(remotePath)) {
+                const child = await this.measure(joinRemotePath(remotePath, file), depth < 0 ? depth : depth - 1, sourceOnly);
+
+                usage.bytes += child.bytes;
+                usage.files += child.files;
+            }
+        }
+
+        return usage;
+    }
+
+    /**
+     * Resolves a path to the case of the names it matches through the mirror,
+     * when ignoring case: the name given, if it is there, or else the first
+     * one only differing in case. Names not found, as of a file to create,
+     * are kept as given.
+     */
+    public async resolvePath(remotePath: string): Promise<string> {
+        if (!this.caseInsensitive) {
+            return remotePath;
+        }
+
+        const names = remotePath.split('/').filter(name => name.length > 0);
+        let resolved = '/';
+
+        for (let i = 0; i < names.length; i++) {
+            // Missing directories and files are left to the operation to report.
+            const files = await this.readDir(resolved).catch(() => [] as string[]);
+            const match = files.indexOf(names[i]) >= 0 ? names[i] : files.sort().find(file => file.toLowerCase() === names[i].toLowerCase());
+
+            if (!match) {
+                return names.slice(i).reduce(joinRemotePath, resolved);
+            }
+
+            resolved = joinRemotePath(resolved, match);
+        }
+
+        return resolved;
+    }
 
-        deleted.map(s => s.trim())
-            .filter(s => s.length > 0)
-            .forEach(entry => this.local.add(entry));
+    /**
+     * Stats a resource as seen through the mirror: its local version, if
+     * there is one, or else its source version.
+     */
+    public async stat(remotePath: string): Promise<SourceStats> {
+        const localStats = await this.statLocal(remotePath);
 
-        console.info(`There is ${this.local.size} local entries.`);            
+        if (localStats) {
+            return localStats;
+        } else if (await this.isLocal(remotePath) || await this.hiddenByAncestor(remotePath)) {
+            throw sourceError('ENOENT', 'stat', remotePath);
+        } else {
+            return this.source.stat(remotePath);
+        }
     }
 
-    public getReadOnlyPath(remotePath: string): string {
-        const localPath = this.getLocalPath(remotePath);
-        
-        if (this.local.has(remotePath) || existsSync(localPath)) {
-            return localPath;
+    /**
+     * Reads a file as seen through the mirror.
+     */
+    public async createReadStream(remotePath: string): Promise<Readable> {
+        if (await this.isLocal(remotePath)) {
+            return this.openLocal(remotePath);
+        } else if (await this.hiddenByAncestor(remotePath)) {
+            throw sourceError('ENOENT', 'open', remotePath);
         } else {
-            return this.resolvePath(this.remotePathMapping, remotePath);
+            return this.source.createReadStream(remotePath);
         }
     }
 
-    public async getReadWritePath(remotePath: string): Promise<string> {
-        const localPath = this.getLocalPath(remotePath);
+    /**
+     * Checks whether the local version of a file has the same content as
+     * its source version.
+     */
+    public async sameAsSource(remotePath: string): Promise<boolean> {
+        const [localStats, sourceStats] = await Promise.all([this.statLocal(remotePath), this.source.stat(remotePath)]);
+
+        if (localStats!.size !== sourceStats.size) {
+            return false;
+        }
+
+        const sourceStream = await this.source.createReadStream(remotePath);
+
+        return sameStreams(await this.openLocal(remotePath).catch(err => {
+            sourceStream.destroy();
+            throw err;
+        }), sourceStream);
+    }
 
-        if (this.local.has(remotePath)) {
-            return localPath;
+    /**
+     * Gives a resource a local version, to be written: it is copied up,
+     * unless it was already. A missing resource is registered as created,
+     * for the caller to create it.
+     */
+    public async copyUp(remotePath: string, user?: string): Promise<void> {
+        if (await this.isLocal(remotePath)) {
+            return;
+        } else if (await this.hiddenByAncestor(remotePath)) {
+            this.checkQuota({ bytes: 0, files: 1 });
+            return this.registerLocal(remotePath, 'create', user);
         }
 
         try {
-            await this.mirror(remotePath, localPath);
+            await this.mirror(remotePath, user);
         } catch (err) {
             if (err.code == 'ENOENT') {
-                this.local.add(remotePath);
+                this.checkQuota({ bytes: 0, files: 1 });
+                await this.registerLocal(remotePath, 'create', user);
             } else {
-                console.error('Cannot get read-write path!', remotePath, err.code);
+                console.error('Cannot copy up!', remotePath, err.code);
                 throw err;
             }
         }
+    }
 
-        return localPath;
+    /**
+     * Creates an empty local file, unless the file exists.
+     */
+    public async createFile(remotePath: string, user?: string): Promise<void> {
+        await this.copyUp(remotePath, user);
+        await this.storage.createFile(remotePath);
+        await this.updateUsage(remotePath);
     }
 
-    public removePath(remotePath: string): Promise<never> {
-        return new Promise((_resolve, reject) => {
-            const localPath = this.getLocalPath(remotePath);
-            const resolve = () => this.registerLocal(remotePath).then(_resolve, reject);
+    /**
+     * Copies up a file about to be overwritten (see `createWriteStream`).
+     * A delta file is dropped, as none of its blocks are kept.
+     */
+    public async prepareOverwrite(remotePath: string, user?: string): Promise<void> {
+        await this.copyUp(remotePath, user);
 
-            stat(localPath, (err, stats) => {
-                if (!err) {
-                    // So let's delete locally.
-                    if (stats.isFile() || stats.isSymbolicLink()) {
-                        unlink(localPath, err => !err ? resolve() : reject(err));
-                    } else {
-                        rmdir(localPath, err => {
-                            if (!err) {
-                                resolve();
-                            } else {
-                                reject(err);
-                            }
-                        });
-                    }
-                } else if (err.code === 'ENOENT') {
-                    // TODO: Check if it exists on remote. 
-                    // WARNING: This could be reached by a move operation (that call this method to remove after rename)!
-                    resolve();
-                } else {
-                    reject(err);
-                }
-            });
-        });
+        if (await this.getDelta(remotePath)) {
+            await this.removeDelta(remotePath);
+        }
     }
 
-    public async readDir(remotePath: string): Promise<string[]> {
-        const getFiles = (path: string) => new Promise<string[]>((resolve, reject) => {
-            readdir(path, (err, files) => {
-                if (err) {
-                    reject(err);
-                } else {
-                    resolve(files);
+    /**
+     * Opens a local file for writing, replacing its content, once prepared
+     * (see `prepareOverwrite`).
+     */
+    public async createWriteStream(remotePath: string): Promise<Writable> {
+        const stream = await this.storage.createWriteStream(remotePath);
+
+        await this.updateUsage(remotePath);
+
+        return stream;
+    }
+
+    /**
+     * Opens a local file for writing a range of its bytes, keeping the other
+     * ones. Only the blocks written are stored for a delta file.
+     *
+     * @param size New size of the file, if it changes.
+     */
+    public async createRangeWriteStream(remotePath: string, range: ByteRange, size?: number, user?: string): Promise<Writable> {
+        await this.copyUp(remotePath, user);
+
+        const delta = await this.getDelta(remotePath);
+
+        if (delta) {
+            this.checkQuota({ bytes: delta.getAddedBytes(range), files: 0 });
+
+            return delta.createWriteStream(this.source, range, size);
+        }
+
+        const stats = await this.statLocal(remotePath);
+        const current = stats ? stats.size : 0;
+
+        this.checkQuota({ bytes: (size !== undefined ? size : Math.max(current, range.end + 1)) - current, files: 0 });
+
+        const stream = await this.storage.createWriteStream(remotePath, { start: range.start, size });
+
+        await this.updateUsage(remotePath);
+
+        return stream;
+    }
+
+    public async removePath(remotePath: string, user?: string): Promise<void> {
+        if (await this.getDelta(remotePath)) {
+            await this.removeDelta(remotePath);
+        } else {
+            await this.storage.remove(remotePath).catch(err => {
+                // TODO: Check if it exists on remote.
+                // WARNING: This could be reached by a move operation (that call this method to remove after rename)!
+                if (err.code !== 'ENOENT') {
+                    throw err;
                 }
             });
-        });
+        }
 
+        await this.updateUsage(remotePath);
+        await this.registerLocal(remotePath, 'delete', user);
+    }
+
+    public async readDir(remotePath: string): Promise<string[]> {
         let remoteENOENT = false, localENOENT = false;
-        const basedir = remotePath.endsWith('/') ? remotePath : remotePath + '/';
-        const remote = getFiles(this.resolvePath(this.remotePathMapping, remotePath))
-            .then(remoteFiles => remoteFiles.filter(file => {
-                if (this.local.has(basedir + file)) {
-                    return false;
-                }
+        const entries = await this.getEntries(remotePath);
+        const shadowed = new Set<string>();
 
-                try {
-                    accessSync(this.resolvePath(this.remotePathMapping, remotePath, file));
-                } catch (err) {
-                    return false;
+        if (this.caseInsensitive) {
+            // A local name shadows the source names only differing in case.
+            entries.forEach((entry, file) => {
+                if (entry.type) {
+                    shadowed.add(file.toLowerCase());
                 }
+            });
+        }
 
-                return true;
-            }), err => {
+        const remote = Promise.all([this.hiddenByAncestor(remotePath), this.isOpaque(remotePath)])
+            .then(([hidden, opaque]) => hidden || opaque ? Promise.reject(sourceError('ENOENT', 'scandir', remotePath)) : this.source.readDir(remotePath))
+            .then(remoteFiles => remoteFiles.filter(file => !entries.has(file) && !shadowed.has(file.toLowerCase())), err => {
                 remoteENOENT = err.code === 'ENOENT';
                 return remoteENOENT ? [] as string[] : Promise.reject<string[]>(err);
             });
-        const local = getFiles(this.getLocalPath(remotePath)).catch(err => {
+        const local = this.readLocalDir(remotePath).catch(err => {
             localENOENT = err.code === 'ENOENT';
 
             return localENOENT ? [] : Promise.reject<string[]>(err);
@@ -153,125 +757,569 @@ export default class MirrorRepository {
             throw new Error('ENOENT');
         }
 
-        return files.reduce((a, b) => a.concat(b));
+        // Local and remote versions of a directory are merged.
+        return Array.from(new Set(files.reduce((a, b) => a.concat(b))));
     }
 
-    private registerLocal(remotePath: string, onlyMemory: boolean = false): Promise<never> {
-        this.local.add(remotePath);
+    /**
+     * Creates a directory on the overlay. A source directory at the same path
+     * is hidden (it was deleted or moved away), so the new directory is marked
+     * opaque to keep its contents hidden.
+     */
+    public async createDirectory(remotePath: string, user?: string): Promise<void> {
+        await this.makeDirectory(remotePath);
+        await this.updateUsage(remotePath);
+        await this.registerLocal(remotePath, 'create', user);
+    }
 
-        return new Promise((resolve, reject) => {
-            if (onlyMemory) {
-                resolve();
-            } else {
-                write(this.deletedFileDescriptor, `${remotePath}\n`, (err, len, buf) => {
-                    if (err) {
-                        reject(err);
-                    } else {
-                        resolve();
-                    }
-                });
+    private async makeDirectory(remotePath: string): Promise<void> {
+        await this.storage.mkdir(remotePath);
+
+        const sourceStats = await this.statSource(remotePath);
+
+        if (sourceStats && sourceStats.isDirectory()) {
+            await this.storage.setOpaque(remotePath, true);
+        }
+    }
+
+    /**
+     * Copies a resource on the overlay. A file without local version is
+     * copied straight from the source to the destination.
+     *
+     * @param depth Depth of the copy of a directory (-1 for infinity).
+     */
+    public async copy(fromPath: string, toPath: string, depth: number = -1, user?: string): Promise<void> {
+        this.checkQuota(await this.measure(fromPath, depth, false));
+
+        await this.copyTree(fromPath, toPath, depth);
+        await this.updateUsage(toPath);
+        await this.registerLocal(toPath, 'create', user);
+    }
+
+    private async copyTree(fromPath: string, toPath: string, depth: number): Promise<void> {
+        const stats = await this.stat(fromPath);
+        const delta = await this.getDelta(fromPath);
+
+        if (stats.isDirectory()) {
+            await this.makeDirectory(toPath);
+
+            if (depth !== 0) {
+                for (const file of await this.readDir(fromPath)) {
+                    await this.copyTree(joinRemotePath(fromPath, file), joinRemotePath(toPath, file), depth < 0 ? depth : depth - 1);
+                }
             }
-        });
+        } else if (delta) {
+            this.deltas.set(toPath, await delta.copy(this.getDeltaPath(toPath)));
+        } else if (await this.statLocal(fromPath)) {
+            await this.storage.copyFile(fromPath, toPath);
+        } else if (this.storesDelta(stats)) {
+            this.deltas.set(toPath, await DeltaFile.create(this.getDeltaPath(toPath), fromPath, stats));
+        } else {
+            await this.storage.importFile(this.source, fromPath, toPath);
+        }
     }
 
-    private mirror(remotePath: string, localPath: string): Promise<never> {
-        if (this.mirroring[localPath]) {
-            return this.mirroring[localPath];
+    /**
+     * Moves a resource on the overlay. Local versions are renamed and source
+     * versions are copied straight to the destination, instead of being
+     * copied up first. A single whiteout then hides the source version of
+     * the origin, with its descendants.
+     */
+    public async move(fromPath: string, toPath: string, user?: string): Promise<void> {
+        this.checkQuota(await this.measure(fromPath, -1, true));
+
+        await this.moveTree(fromPath, toPath);
+        await this.updateUsage(fromPath);
+        await this.updateUsage(toPath);
+        await this.registerLocal(toPath, 'move', user, fromPath);
+    }
+
+    private async moveTree(fromPath: string, toPath: string): Promise<void> {
+        const [localStats, sourceStats] = await Promise.all([this.statLocal(fromPath), this.statSource(fromPath)]);
+
+        if (await this.getDelta(fromPath)) {
+            await mkDirByPath(path.dirname(this.getDeltaPath(toPath)));
+            await renameAsync(this.getDeltaPath(fromPath), this.getDeltaPath(toPath));
+            this.deltas.delete(fromPath);
+            await this.removeDeltasDir(path.posix.dirname(fromPath));
+        } else if (localStats && !(localStats.isDirectory() && sourceStats && sourceStats.isDirectory() && !await this.isOpaque(fromPath))) {
+            // Nothing of the source shows through a local file, a local-only directory or an opaque one.
+            await this.storage.rename(fromPath, toPath);
+
+            // Delta files under a directory went with it.
+            entriesUnder(this.deltas.keys(), fromPath).forEach(entry => this.deltas.delete(entry));
+        } else if (localStats || sourceStats!.isDirectory()) {
+            await this.makeDirectory(toPath);
+
+            for (const file of await this.readDir(fromPath)) {
+                await this.moveTree(joinRemotePath(fromPath, file), joinRemotePath(toPath, file));
+            }
+
+            if (localStats) {
+                await this.storage.remove(fromPath);
+            }
+        } else if (this.storesDelta(sourceStats!)) {
+            this.deltas.set(toPath, await DeltaFile.create(this.getDeltaPath(toPath), fromPath, sourceStats!));
+        } else {
+            await this.storage.importFile(this.source, fromPath, toPath);
         }
+    }
+
+    /**
+     * Lists what the overlay changed relative to the read-only source.
+     * Files copied up but with the same content as the source are not reported.
+     */
+    public async changes(): Promise<Change[]> {
+        const changes: Change[] = [];
+        const overlay = new Set<string>();
 
-        const promise: Promise<never> = new Promise((resolve, reject) => {
-            try {
-                mkDirByPathSync(path.dirname(localPath));
-            } catch (err) {
-                delete this.mirroring[localPath];
-                reject(err);
+        const hideSourceChildren = async (remotePath: string) => {
+            const entries = await this.getEntries(remotePath);
+
+            for (const file of await this.source.readDir(remotePath)) {
+                const child = joinRemotePath(remotePath, file);
+
+                if (!entries.has(file)) {
+                    const sourceStats = await this.source.stat(child);
+
+                    changes.push({ path: child, type: 'deleted', directory: sourceStats.isDirectory() });
+                }
             }
+        };
+        const walk = async (remotePath: string) => {
+            for (const file of await this.readLocalDir(remotePath)) {
+                const child = joinRemotePath(remotePath, file);
+                const [localStats, sourceStats] = await Promise.all([this.statLocal(child), this.statSource(child)]) as [SourceStats, SourceStats | undefined];
+
+                overlay.add(child);
+
+                if (localStats.isDirectory()) {
+                    if (!sourceStats) {
+                        changes.push({ path: child, type: 'added', directory: true });
+                    } else if (!sourceStats.isDirectory()) {
+                        changes.push({ path: child, type: 'modified', directory: true });
+                    } else if (await this.isOpaque(child)) {
+                        await hideSourceChildren(child);
+                    }
 
-            console.info('Mirroring', remotePath);
-            
-            copyFile(this.resolvePath(this.remotePathMapping, remotePath), localPath, err => {
-                delete this.mirroring[localPath];
-                if (!err) {
-                    this.registerLocal(remotePath, true).then(resolve, reject);
-                } else if (err.code === 'ENOTDIR') {
-                    resolve(this.mirrorDir(remotePath, localPath));
-                } else {
-                    reject(err);
+                    await walk(child);
+                } else if (!sourceStats) {
+                    changes.push({ path: child, type: 'added', directory: false });
+                } else if (sourceStats.isDirectory() || !await this.sameAsSource(child)) {
+                    changes.push({ path: child, type: 'modified', directory: false });
                 }
-            });
-        });
+            }
+        };
 
-        this.mirroring[localPath] = promise;
+        await walk('/');
 
-        return promise;
+        const deleted = new Set<string>();
+
+        for (const [entry] of (await this.index.walk('/')).sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0)) {
+            if (overlay.has(entry)) {
+                continue;
+            } else if (deleted.has(path.posix.dirname(entry))) {
+                // Already reported by its deleted parent.
+                deleted.add(entry);
+                continue;
+            }
+
+            const sourceStats = await this.statSource(entry);
+
+            if (sourceStats) {
+                deleted.add(entry);
+                changes.push({ path: entry, type: 'deleted', directory: sourceStats.isDirectory() });
+            }
+        }
+
+        return changes.sort((a, b) => a.path < b.path ? -1 : a.path > b.path ? 1 : 0);
     }
 
-    private mirrorDir(remotePath: string, localPath: string): Promise<never> {
-        return new Promise((resolve, reject) => {
-            readdir(this.resolvePath(this.remotePathMapping, remotePath), (err, files) => {
-                if (err) {
-                    console.error('Failed to mirror directory', err.code, remotePath, localPath);
-                    reject(err);
-                } else {
-                    mkdir(localPath, err => {
-                        if (err) {
-                            console.error('Failed to create local directory', err.code, localPath);
-                            reject(err);
-                        } else {
-                            const promises = files.map(file => this.mirror(`${remotePath}/${file}`, this.resolvePath(localPath, file)));
-                            Promise.all(promises).then(() => this.registerLocal(remotePath).then(resolve, reject), reject);
-                        }
-                    });
+    /**
+     * Discards the overlay changes of a path and its descendants, so that the
+     * source version shows through again. Deleted or opaque ancestors are
+     * restored too, but their other children stay deleted.
+     *
+     * @returns Whether there was anything to revert.
+     */
+    public async revert(remotePath: string): Promise<boolean> {
+        await this.loaded;
+
+        const reverted = (await this.index.walk(remotePath)).map(([entry]) => entry);
+        const existed = await this.hasLocalVersion(remotePath);
+        const ancestors: string[] = [];
+        let hiding = false;
+
+        for (let ancestor = path.posix.dirname(remotePath); ancestor !== '/'; ancestor = path.posix.dirname(ancestor)) {
+            ancestors.unshift(ancestor);
+        }
+
+        for (const ancestor of ancestors) {
+            const entry = await this.index.get(ancestor);
+            const deleted = entry !== undefined && !entry.type;
+            const opaque = entry !== undefined && !!entry.opaque;
+
+            hiding = hiding || deleted || opaque;
+
+            if (hiding) {
+                // Hides the other source children one by one instead.
+                const next = remotePath.split('/').slice(0, ancestor.split('/').length + 1).join('/');
+                const entries = await this.index.list(ancestor);
+
+                for (const file of await this.source.readDir(ancestor).catch(() => [] as string[])) {
+                    if (joinRemotePath(ancestor, file) !== next && !entries.has(file)) {
+                        await this.registerLocal(joinRemotePath(ancestor, file), 'delete');
+                    }
                 }
-            });
-        });
+            }
+
+            if (deleted) {
+                reverted.push(ancestor);
+            } else if (opaque) {
+                await this.storage.setOpaque(ancestor, false);
+                await this.index.update(ancestor, { opaque: undefined });
+            }
+        }
+
+        await this.storage.removeTree(remotePath);
+
+        if (await this.getDelta(remotePath)) {
+            await this.removeDelta(remotePath);
+        }
+
+        // Delta files under a directory went with it.
+        entriesUnder(this.deltas.keys(), remotePath).forEach(entry => this.deltas.delete(entry));
+        await this.updateUsage(remotePath);
+
+        for (const entry of reverted) {
+            await this.index.update(entry, { local: undefined, copyUp: undefined });
+        }
+
+        await this.compact();
+
+        return existed || reverted.length > 0 || hiding;
+    }
+
+    /**
+     * Registers a local entry, recording its change on the journal. A moved
+     * entry also registers its origin, which is left deleted.
+     */
+    private async registerLocal(remotePath: string, op: JournalOperation, user?: string, from?: string, base?: SourceVersion): Promise<void> {
+        const record: JournalRecord = { op, path: remotePath, from, base, time: new Date().toISOString(), user };
+
+        await this.index.update(remotePath, { local: true });
+
+        if (from) {
+            await this.index.update(from, { local: true });
+        }
+
+        await this.trackCopyUp(record);
+        await this.storage.appendJournal(record);
+        this.emit('record', record);
     }
 
-    private resolvePath(...paths: string[]) {
-        return paths.reduce((a, b) => {
-            if (b.startsWith('..')) {
-                throw new Error('Path cannot backward.');
+    /**
+     * Keeps the copy-up records of the local files up to date with a change:
+     * a move carries them along, and other changes replace them.
+     */
+    private async trackCopyUp(record: JournalRecord): Promise<void> {
+        const clear = async (remotePath: string) => {
+            const copyUps = (await this.index.walk(remotePath)).filter(([, entry]) => entry.copyUp);
+
+            for (const [entry] of copyUps) {
+                await this.index.update(entry, { copyUp: undefined });
             }
 
-            if (!a.endsWith(this.dirSeparator)) {
-                return b.startsWith(this.dirSeparator) ? a + b : `${a}${this.dirSeparator}${b}`;
-            } else {
-                return !b.startsWith(this.dirSeparator) ? a + b : a + b.substring(1);
+            return copyUps;
+        };
+
+        if (record.op === 'move') {
+            await clear(record.path);
+
+            for (const [entry, { copyUp }] of await clear(record.from!)) {
+                await this.index.update(record.path + entry.substring(record.from!.length), { copyUp });
             }
-        });
+        } else {
+            await clear(record.path);
+        }
+
+        if (record.op === 'copy-up' && record.base) {
+            await this.index.update(record.path, { copyUp: record });
+        }
     }
 
-    private getLocalPath(remotePath: string): string {
-        return this.resolvePath(this.localPathMapping, 'mirror', remotePath);
+    /**
+     * Hashes a source file, reusing the last hash while its size and mtime
+     * stay the same.
+     */
+    private async hashSource(remotePath: string, stats: SourceStats): Promise<string> {
+        const cached = this.sourceHashes.get(remotePath);
+        const mtime = stats.mtime.toISOString();
+
+        if (cached && cached.size === stats.size && cached.mtime === mtime) {
+            return cached.sha256;
+        }
+
+        const sha256 = await hashStream(await this.source.createReadStream(remotePath));
+
+        this.sourceHashes.set(remotePath, { size: stats.size, mtime, sha256 });
+
+        return sha256;
     }
-}
 
-// https://stackoverflow.com/questions/31645738/how-to-create-full-path-with-nodes-fs-mkdirsync
-function mkDirByPathSync(targetDir: string, { isRelativeToScript = false } = {}) {
-    const sep = path.sep;
-    const initDir = path.isAbsolute(targetDir) ? sep : '';
-    const baseDir = isRelativeToScript ? __dirname : '.';
+    private mirror(remotePath: string, user?: string): Promise<void> {
+        if (this.mirroring[remotePath]) {
+            return this.mirroring[remotePath];
+        }
 
-    return targetDir.split(sep).reduce((parentDir, childDir) => {
-        const curDir = path.resolve(baseDir, parentDir, childDir);
-        try {
-            mkdirSync(curDir);
-        } catch (err) {
-            if (err.code === 'EEXIST') { // curDir already exists!
-                return curDir;
+        const promise: Promise<void> = this.source.stat(remotePath).then(async stats => {
+            this.emit('copy-up-start', remotePath, user);
+
+            if (stats.isDirectory()) {
+                await this.mirrorDir(remotePath);
+                await this.updateUsage(remotePath);
+                return this.registerLocal(remotePath, 'copy-up', user);
+            }
+
+            if (this.storesDelta(stats)) {
+                this.checkQuota({ bytes: 0, files: 1 });
+                this.deltas.set(remotePath, await DeltaFile.create(this.getDeltaPath(remotePath), remotePath, stats));
+                await this.updateUsage(remotePath);
+
+                // Too large to hash now: a touched source counts as modified.
+                return this.registerLocal(remotePath, 'copy-up', user, undefined, { path: remotePath, size: stats.size, mtime: stats.mtime.toISOString() });
             }
 
-            // To avoid `EISDIR` error on Mac and `EACCES`-->`ENOENT` and `EPERM` on Windows.
-            if (err.code === 'ENOENT') { // Throw the original parentDir error on curDir `ENOENT` failure.
-                throw new Error(`EACCES: permission denied, mkdir '${parentDir}'`);
+            this.checkQuota({ bytes: stats.size, files: 1 });
+            await this.storage.importFile(this.source, remotePath, remotePath);
+
+            // Keeps the modification time, and so the ETag, while the content is the same.
+            await this.storage.setModifiedTime(remotePath, stats.mtime);
+            await this.updateUsage(remotePath);
+
+            // Hashes the copy, as it has the content of the source.
+            const base = { path: remotePath, size: stats.size, mtime: stats.mtime.toISOString(), sha256: await hashStream(await this.storage.createReadStream(remotePath)) };
+
+            return this.registerLocal(remotePath, 'copy-up', user, undefined, base);
+        }).then(() => {
+            delete this.mirroring[remotePath];
+        }, err => {
+            delete this.mirroring[remotePath];
+            throw err;
+        });
+
+        this.mirroring[remotePath] = promise;
+
+        return promise;
+    }
+
+    /**
+     * Copies up a directory as metadata only: the local directory is created,
+     * and the source children keep showing through it.
+     */
+    private mirrorDir(remotePath: string): Promise<void> {
+        return this.storage.mkdir(remotePath).catch(err => {
+            if (err.code !== 'EEXIST') {
+                console.error('Failed to create local directory', err.code, remotePath);
+                throw err;
             }
+        });
+    }
+
+    /**
+     * Gets the entry of a path on the index, once loaded.
+     */
+    private async getEntry(remotePath: string): Promise<IndexEntry | undefined> {
+        await this.loaded;
+
+        return this.index.get(remotePath);
+    }
+
+    /**
+     * Gets the entries of a directory on the index, once loaded.
+     */
+    private async getEntries(remotePath: string): Promise<Map<string, IndexEntry>> {
+        await this.loaded;
+
+        return this.index.list(remotePath);
+    }
+
+    /**
+     * Stats the local version of a resource, if there is one.
+     */
+    private async statLocal(remotePath: string): Promise<SourceStats | undefined> {
+        const entry = await this.getEntry(remotePath);
+
+        if (!entry || !entry.type) {
+            return undefined;
+        } else if (entry.type === 'delta') {
+            return (await this.loadDelta(remotePath)).stats;
+        }
+
+        return this.storage.stat(remotePath).catch(ignoreMissing);
+    }
+
+    /**
+     * Stats the source version of a resource, if there is one.
+     */
+    private statSource(remotePath: string): Promise<SourceStats | undefined> {
+        return this.source.stat(remotePath).catch(ignoreMissing);
+    }
 
-            const caughtErr = ['EACCES', 'EPERM', 'EISDIR'].indexOf(err.code) > -1;
-            if (!caughtErr || caughtErr && curDir === path.resolve(targetDir)) {
-                throw err; // Throw if it's just the last created dir.
+    /**
+     * Checks whether an ancestor of a path hides the source versions of its
+     * descendants: it was deleted or moved away, or it is opaque.
+     */
+    private async hiddenByAncestor(remotePath: string): Promise<boolean> {
+        for (let ancestor = path.posix.dirname(remotePath); ancestor !== '/'; ancestor = path.posix.dirname(ancestor)) {
+            const entry = await this.getEntry(ancestor);
+
+            if (entry && (entry.opaque || !entry.type)) {
+                return true;
             }
         }
 
-        return curDir;
-    }, initDir);
-}
\ No newline at end of file
+        return false;
+    }
+
+    /**
+     * Checks whether a local directory hides the contents of its source version.
+     */
+    private async isOpaque(remotePath: string): Promise<boolean> {
+        const entry = await this.getEntry(remotePath);
+
+        return entry !== undefined && !!entry.opaque;
+    }
+
+    /**
+     * Checks whether a path was changed on the overlay: it has a local
+     * version, or it was deleted.
+     */
+    private async isLocal(remotePath: string): Promise<boolean> {
+        return await this.getEntry(remotePath) !== undefined;
+    }
+
+    /**
+     * Checks whether a path has a local version, as a file, a directory or a
+     * delta file.
+     */
+    private async hasLocalVersion(remotePath: string): Promise<boolean> {
+        const entry = await this.getEntry(remotePath);
+
+        return entry !== undefined && entry.type !== undefined;
+    }
+
+    /**
+     * Reads the local version of a file.
+     */
+    private async openLocal(remotePath: string): Promise<Readable> {
+        const delta = await this.getDelta(remotePath);
+
+        return delta ? delta.createReadStream(this.source) : this.storage.createReadStream(remotePath);
+    }
+
+    /**
+     * Lists a local directory, with its delta files.
+     */
+    private async readLocalDir(remotePath: string): Promise<string[]> {
+        const entry = await this.getEntry(remotePath);
+        const files: string[] = [];
+
+        if (!entry || !entry.type) {
+            throw sourceError('ENOENT', 'scandir', remotePath);
+        } else if (entry.type !== 'directory') {
+            throw sourceError('ENOTDIR', 'scandir', remotePath);
+        }
+
+        (await this.index.list(remotePath)).forEach((child, file) => {
+            if (child.type) {
+                files.push(file);
+            }
+        });
+
+        return files;
+    }
+
+    /**
+     * Gets the delta file of a path, if it is stored as one.
+     */
+    private async getDelta(remotePath: string): Promise<DeltaFile | undefined> {
+        const entry = await this.getEntry(remotePath);
+
+        return entry && entry.type === 'delta' ? this.loadDelta(remotePath) : undefined;
+    }
+
+    /**
+     * Reads a delta file, unless it was already.
+     */
+    private async loadDelta(remotePath: string): Promise<DeltaFile> {
+        let delta = this.deltas.get(remotePath);
+
+        if (!delta) {
+            delta = await DeltaFile.read(this.getDeltaPath(remotePath));
+            this.deltas.set(remotePath, delta);
+        }
+
+        return delta;
+    }
+
+    /**
+     * Lists the delta files of a local directory.
+     */
+    private readDeltasDir(remotePath: string): Promise<string[]> {
+        return this.storage.getDeltasPath ? readdirAsync(this.storage.getDeltasPath(remotePath)).catch(err => {
+            if (err.code === 'ENOENT' || err.code === 'ENOTDIR') {
+                return [] as string[];
+            }
+
+            throw err;
+        }) : Promise.resolve([]);
+    }
+
+    private storesDelta(stats: SourceStats): boolean {
+        return this.deltaThreshold !== undefined && this.storage.getDeltasPath !== undefined && stats.isFile() && stats.size >= this.deltaThreshold;
+    }
+
+    private async removeDelta(remotePath: string): Promise<void> {
+        await removeTree(this.getDeltaPath(remotePath));
+        this.deltas.delete(remotePath);
+        await this.index.update(remotePath, { type: undefined, size: undefined });
+        await this.removeDeltasDir(path.posix.dirname(remotePath));
+    }
+
+    /**
+     * Removes the directory of the delta files of a local directory, once
+     * it has none.
+     */
+    private removeDeltasDir(remotePath: string): Promise<void> {
+        return rmdirAsync(this.storage.getDeltasPath!(remotePath)).catch(() => undefined);
+    }
+
+    private getDeltaPath(remotePath: string): string {
+        return path.join(this.storage.getDeltasPath!(path.posix.dirname(remotePath)), path.posix.basename(remotePath));
+    }
+}
+
+/**
+ * Resolves a stat of a missing path as undefined.
+ */
+function ignoreMissing(err: any): undefined {
+    if (err.code === 'ENOENT' || err.code === 'ENOTDIR') {
+        return undefined;
+    }
+
+    throw err;
+}
+
+function joinRemotePath(remotePath: string, file: string): string {
+    return remotePath.endsWith('/') ? remotePath + file : `${remotePath}/${file}`;
+}
+
+/**
+ * Filters the entries at or under a path.
+ */
+function entriesUnder(entries: Iterable<string>, remotePath: string): string[] {
+    const prefix = remotePath.endsWith('/') ? remotePath : remotePath + '/';
+
+    return Array.from(entries).filter(entry => entry === remotePath || entry.startsWith(prefix));
+}
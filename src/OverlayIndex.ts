@@ -0,0 +1,299 @@
+import * as path from "path";
+import { createHash } from "crypto";
+import { JournalRecord } from "./Journal";
+import { Usage } from "./MirrorRepository";
+import OverlayStorage, { StoredType } from "./storage/OverlayStorage";
+
+/**
+ * Name of the document of the index header, kept by the overlay storage.
+ * The shards are kept as `index/<hash of the directory>.json`.
+ */
+export const INDEX_DOCUMENT = 'index.json';
+
+const VERSION = 1;
+
+/**
+ * What the overlay holds for a path. An entry without local version but
+ * changed is deleted (a whiteout).
+ */
+export interface IndexEntry {
+    type?: StoredType;
+
+    /**
+     * Bytes taken by a local file, or by the blocks of a delta file.
+     */
+    size?: number;
+    opaque?: boolean;
+
+    /**
+     * Whether the path was changed, as recorded on the journal.
+     */
+    local?: boolean;
+
+    /**
+     * Copy-up record of a local file, for its drift.
+     */
+    copyUp?: JournalRecord;
+
+    /**
+     * Writes made to a local file, for its ETag to change on each one.
+     */
+    writes?: number;
+}
+
+/**
+ * Entries of a directory, with the names of its children having a shard.
+ */
+interface IndexShard {
+    entries: Map<string, IndexEntry>;
+    children: Set<string>;
+}
+
+interface IndexHeader {
+    version: number;
+    generation: number;
+    clean: boolean;
+    usage: Usage;
+}
+
+type SerializedShard = { generation: number, entries: { [name: string]: IndexEntry }, children: string[] };
+
+/**
+ * The root, which is always a local directory.
+ */
+const ROOT_ENTRY: IndexEntry = { type: 'directory' };
+
+/**
+ * Persistent index of an overlay, by directory: the local versions with
+ * their sizes, the whiteouts and the copy-up records. It spares walking the
+ * whole overlay and replaying the journal when the repository loads.
+ *
+ * Each directory is a shard, read on first use and written back when the
+ * index is closed, with the header holding the usage. The header tells
+ * whether the index was closed: if it was not, changes may be missing from
+ * it, and it is rebuilt by the repository (see `MirrorRepository.load`).
+ * The changes are locked while the index is open, so that no other process
+ * marks it as closed meanwhile (see `OverlayStorage.lock`).
+ * Shards of an older generation, left by a rebuilt index, are ignored.
+ */
+export default class OverlayIndex {
+    private readonly shards = new Map<string, Promise<IndexShard>>();
+    private readonly dirty = new Set<string>();
+    private totals: Usage = { bytes: 0, files: 0 };
+    private generation = 0;
+    private clean = false;
+
+    /**
+     * Whether all the shards are in memory, as when the index is rebuilt.
+     */
+    private complete = true;
+
+    constructor(private readonly storage: OverlayStorage) {
+    }
+
+    /**
+     * Size of the local files.
+     */
+    public get usage(): Usage {
+        return { ...this.totals };
+    }
+
+    /**
+     * Opens the index, marking it as not closed until `close`.
+     *
+     * @param reuse Whether to reuse the saved index, if it was closed.
+     * @returns Whether the saved index is reused. Otherwise the index starts
+     * empty, for the caller to rebuild it.
+     */
+    public async open(reuse = true): Promise<boolean> {
+        const content = await this.storage.readDocument(INDEX_DOCUMENT);
+        const header: IndexHeader | undefined = content !== undefined ? JSON.parse(content) : undefined;
+        const reused = reuse && header !== undefined && header.version === VERSION && header.clean;
+
+        this.shards.clear();
+        this.dirty.clear();
+        this.generation = header && typeof header.generation === 'number' ? header.generation + (reused ? 0 : 1) : 0;
+        this.totals = reused ? { ...header!.usage } : { bytes: 0, files: 0 };
+        this.complete = !reused;
+        this.clean = false;
+        await this.writeHeader();
+
+        return reused;
+    }
+
+    /**
+     * Writes the changed shards, then the header as closed.
+     */
+    public async close(): Promise<void> {
+        for (const dir of Array.from(this.dirty)) {
+            const shard = await this.shards.get(dir)!;
+            const entries: { [name: string]: IndexEntry } = {};
+
+            this.dirty.delete(dir);
+            shard.entries.forEach((entry, name) => {
+                entries[name] = entry;
+            });
+            await this.storage.writeDocument(getShardName(dir), JSON.stringify({ generation: this.generation, entries, children: Array.from(shard.children) }));
+        }
+
+        this.clean = true;
+        await this.writeHeader();
+    }
+
+    public async get(remotePath: string): Promise<IndexEntry | undefined> {
+        if (remotePath === '/') {
+            return ROOT_ENTRY;
+        }
+
+        return (await this.getShard(path.posix.dirname(remotePath))).entries.get(path.posix.basename(remotePath));
+    }
+
+    /**
+     * Lists the entries of a directory, by name.
+     */
+    public async list(remotePath: string): Promise<Map<string, IndexEntry>> {
+        return new Map((await this.getShard(remotePath)).entries);
+    }
+
+    /**
+     * Lists the entries at or under a path, reading the shards of its
+     * descendants.
+     */
+    public async walk(remotePath: string): Promise<[string, IndexEntry][]> {
+        const found: [string, IndexEntry][] = [];
+        const visit = async (dir: string) => {
+            const shard = await this.getShard(dir);
+
+            shard.entries.forEach((entry, name) => found.push([joinRemotePath(dir, name), entry]));
+
+            for (const child of Array.from(shard.children)) {
+                await visit(joinRemotePath(dir, child));
+            }
+        };
+
+        if (remotePath === '/') {
+            await visit(remotePath);
+            return found;
+        }
+
+        const parent = await this.getShard(path.posix.dirname(remotePath));
+        const entry = parent.entries.get(path.posix.basename(remotePath));
+
+        if (entry) {
+            found.push([remotePath, entry]);
+        }
+
+        if (parent.children.has(path.posix.basename(remotePath))) {
+            await visit(remotePath);
+        }
+
+        return found;
+    }
+
+    /**
+     * Changes the entry of a path, accounting its size. An entry left
+     * without local version, change or copy-up is dropped.
+     */
+    public async update(remotePath: string, changes: IndexEntry): Promise<void> {
+        if (remotePath === '/') {
+            return;
+        }
+
+        await this.touch();
+
+        const dir = path.posix.dirname(remotePath), name = path.posix.basename(remotePath);
+        const shard = await this.getShard(dir);
+        const previous = shard.entries.get(name);
+        const entry: IndexEntry = { ...previous, ...changes };
+
+        this.account(previous, -1);
+
+        if (entry.type || entry.local || entry.copyUp) {
+            shard.entries.set(name, entry);
+            this.account(entry, 1);
+        } else {
+            shard.entries.delete(name);
+        }
+
+        this.dirty.add(dir);
+        await this.link(dir);
+    }
+
+    private account(entry: IndexEntry | undefined, sign: number) {
+        if (entry && (entry.type === 'file' || entry.type === 'delta')) {
+            this.totals.bytes += sign * (entry.size || 0);
+            this.totals.files += sign;
+        }
+    }
+
+    /**
+     * Links the shard of a directory to the ones of its ancestors, for
+     * `walk` to find it.
+     */
+    private async link(dir: string): Promise<void> {
+        for (let child = dir; child !== '/'; child = path.posix.dirname(child)) {
+            const parent = path.posix.dirname(child);
+            const shard = await this.getShard(parent);
+
+            if (shard.children.has(path.posix.basename(child))) {
+                return;
+            }
+
+            shard.children.add(path.posix.basename(child));
+            this.dirty.add(parent);
+        }
+    }
+
+    private getShard(dir: string): Promise<IndexShard> {
+        let shard = this.shards.get(dir);
+
+        if (!shard) {
+            shard = this.complete ? Promise.resolve(createShard()) : this.readShard(dir);
+            shard.catch(() => this.shards.delete(dir));
+            this.shards.set(dir, shard);
+        }
+
+        return shard;
+    }
+
+    private async readShard(dir: string): Promise<IndexShard> {
+        const content = await this.storage.readDocument(getShardName(dir));
+        const data: SerializedShard | undefined = content !== undefined ? JSON.parse(content) : undefined;
+        const shard = createShard();
+
+        if (data && data.generation === this.generation) {
+            Object.keys(data.entries).forEach(name => shard.entries.set(name, data.entries[name]));
+            data.children.forEach(name => shard.children.add(name));
+        }
+
+        return shard;
+    }
+
+    /**
+     * Marks the index as not closed, before it changes.
+     */
+    private async touch(): Promise<void> {
+        if (this.clean) {
+            this.clean = false;
+            await this.writeHeader();
+        }
+    }
+
+    private writeHeader(): Promise<void> {
+        const header: IndexHeader = { version: VERSION, generation: this.generation, clean: this.clean, usage: this.totals };
+
+        return this.storage.writeDocument(INDEX_DOCUMENT, JSON.stringify(header));
+    }
+}
+
+function createShard(): IndexShard {
+    return { entries: new Map(), children: new Set() };
+}
+
+function getShardName(dir: string): string {
+    return `index/${createHash('sha1').update(dir).digest('hex')}.json`;
+}
+
+function joinRemotePath(remotePath: string, file: string): string {
+    return remotePath.endsWith('/') ? remotePath + file : `${remotePath}/${file}`;
+}
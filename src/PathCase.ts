@@ -0,0 +1,67 @@
+import * as path from "path";
+import { HTTPRequestContext, Path } from "webdav-server/lib/index.v2";
+import PreservingMirrorFileSystem from "./PreservingMirrorFileSystem";
+
+/**
+ * Resolves the paths of a request to the case of the names they match, on
+ * the mounts ignoring case (see `MirrorRepository.resolvePath`), before the
+ * request is handled: its path, and the `Destination` of a `MOVE` or
+ * `COPY`. A destination that only differs in case from the requested path
+ * is a rename to that case, so its name is kept as given. Mount prefixes
+ * still match in their own case.
+ *
+ * To be registered with `WebDAVServer.beforeRequest`.
+ */
+export default function resolvePathCase(ctx: HTTPRequestContext, next: () => void): void {
+    const method = ctx.request.method!.toUpperCase();
+    const destination = method === 'MOVE' || method === 'COPY' ? ctx.headers.find('Destination') : null;
+
+    resolve(ctx, ctx.requested.path.toString()).then(async requested => {
+        ctx.requested.path = new Path(requested);
+
+        if (!destination) {
+            return;
+        }
+
+        const given = getDestinationPath(destination);
+        let resolved = await resolve(ctx, given);
+
+        if (resolved === requested && given !== requested) {
+            resolved = path.posix.join(path.posix.dirname(resolved), path.posix.basename(given));
+        }
+
+        ctx.request.headers.destination = resolved.split('/').map(encodeURIComponent).join('/');
+    }).then(() => next(), err => {
+        // Left to the method to answer, with the paths as given.
+        console.error('Cannot resolve the case of a path!', ctx.requested.path.toString(), err);
+        next();
+    });
+}
+
+async function resolve(ctx: HTTPRequestContext, requestPath: string): Promise<string> {
+    const { fs, rootPath, subPath } = ctx.server.getFileSystemSync(new Path(requestPath));
+
+    if (!(fs instanceof PreservingMirrorFileSystem)) {
+        return requestPath;
+    }
+
+    const { repository } = fs.getWorkspace(ctx);
+
+    return repository.caseInsensitive ? joinPath(rootPath.toString(), await repository.resolvePath(subPath.toString())) : requestPath;
+}
+
+/**
+ * Gets the path of a `Destination` URL, as the `MOVE` and `COPY` methods do.
+ */
+function getDestinationPath(destination: string): string {
+    const schemeEnd = destination.indexOf('://');
+    const destinationPath = new Path(schemeEnd >= 0 ? destination.substring(destination.indexOf('/', schemeEnd + 3)) : destination);
+
+    destinationPath.decode();
+
+    return destinationPath.toString();
+}
+
+function joinPath(mountPath: string, remotePath: string): string {
+    return mountPath.replace(/\/$/, '') + (remotePath === '/' && mountPath !== '/' ? '' : remotePath);
+}
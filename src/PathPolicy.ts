@@ -0,0 +1,54 @@
+import { compileGlob, matchesAny } from "./glob";
+
+/**
+ * Globs of a path policy (see `compileGlob`).
+ */
+export interface PolicyConfig {
+    readOnly?: string[];
+    hidden?: string[];
+    ignored?: string[];
+}
+
+/**
+ * Rules over the paths of a mirror, given as globs:
+ *
+ * - read-only paths may not be changed, nor moved;
+ * - hidden paths are not shown at all, nor may they be written;
+ * - ignored paths (e.g. `.DS_Store`) are written to the overlay as any
+ *   other, but are left out of the status and apply tooling.
+ */
+export default class PathPolicy {
+    private readonly readOnly: RegExp[];
+    private readonly hidden: RegExp[];
+    private readonly ignored: RegExp[];
+
+    constructor(public readonly config: PolicyConfig = {}) {
+        this.readOnly = (config.readOnly || []).map(compileGlob);
+        this.hidden = (config.hidden || []).map(compileGlob);
+        this.ignored = (config.ignored || []).map(compileGlob);
+    }
+
+    /**
+     * Whether some path may be read-only or hidden, so that the paths under
+     * a directory must be checked before changing it as a whole.
+     */
+    public get restricts(): boolean {
+        return this.readOnly.length > 0 || this.hidden.length > 0;
+    }
+
+    public isReadOnly(remotePath: string): boolean {
+        return matchesAny(remotePath, this.readOnly);
+    }
+
+    public isHidden(remotePath: string): boolean {
+        return matchesAny(remotePath, this.hidden);
+    }
+
+    public isIgnored(remotePath: string): boolean {
+        return matchesAny(remotePath, this.ignored);
+    }
+
+    public isWritable(remotePath: string): boolean {
+        return !this.isReadOnly(remotePath) && !this.isHidden(remotePath);
+    }
+}
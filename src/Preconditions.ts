@@ -0,0 +1,63 @@
+import { HTTPRequestContext, HTTPCodes } from "webdav-server/lib/index.v2";
+
+/**
+ * Checks the conditional headers of a request, `If-Match` and
+ * `If-None-Match` (RFC 7232), against the ETag of its resource before the
+ * request is handled, so that a client only overwrites the version it
+ * read, or only creates a file. Reads also get the ETag of the resource,
+ * and a 304 Not Modified when the client already has it.
+ *
+ * To be registered with `WebDAVServer.beforeRequest`.
+ */
+export default function checkPreconditions(ctx: HTTPRequestContext, next: () => void): void {
+    const ifMatch = ctx.headers.find('If-Match'), ifNoneMatch = ctx.headers.find('If-None-Match');
+    const read = ctx.request.method === 'GET' || ctx.request.method === 'HEAD';
+
+    if (!ifMatch && !ifNoneMatch && !read) {
+        return next();
+    }
+
+    ctx.getResource((e, resource) => {
+        if (e) {
+            // Left to the method to answer.
+            return next();
+        }
+
+        resource!.etag((e, etag) => {
+            const exists = !e;
+
+            if (exists && read) {
+                ctx.response.setHeader('ETag', etag!);
+            }
+
+            if (ifMatch && !(exists && matches(ifMatch, etag!, false))) {
+                fail(ctx, HTTPCodes.PreconditionFailed);
+            } else if (ifNoneMatch && exists && matches(ifNoneMatch, etag!, true)) {
+                fail(ctx, read ? HTTPCodes.NotModified : HTTPCodes.PreconditionFailed);
+            } else {
+                next();
+            }
+        });
+    });
+}
+
+/**
+ * Checks whether a list of ETags, or `*`, matches an ETag. The strong
+ * comparison of `If-Match` never matches weak ETags.
+ */
+function matches(header: string, etag: string, weak: boolean): boolean {
+    return header.split(',').map(tag => tag.trim()).some(tag => {
+        if (tag === '*') {
+            return true;
+        } else if (weak) {
+            return tag.replace(/^W\//, '') === etag.replace(/^W\//, '');
+        }
+
+        return tag === etag && !tag.startsWith('W/');
+    });
+}
+
+function fail(ctx: HTTPRequestContext, code: number) {
+    ctx.setCode(code);
+    ctx.exit();
+}
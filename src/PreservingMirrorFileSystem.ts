@@ -1,191 +1,370 @@
-import { FileSystem, RequestContext, Path, CreateInfo, SimpleCallback, ReturnCallback, DeleteInfo, OpenWriteStreamInfo, OpenReadStreamInfo, MoveInfo, SizeInfo, ReadDirInfo, CreationDateInfo, LastModifiedDateInfo, ResourceType, IPropertyManager, Errors, ILockManager, PhysicalFileSystemResource, LockManagerInfo, PropertyManagerInfo, LocalPropertyManager, Return2Callback, PropertyAttributes, ResourcePropertyValue } from "webdav-server/lib/index.v2";
+import { FileSystem, RequestContext, HTTPRequestContext, Path, CreateInfo, ETagInfo, SimpleCallback, ReturnCallback, DeleteInfo, OpenWriteStreamInfo, OpenReadStreamInfo, MoveInfo, CopyInfo, RenameInfo, SizeInfo, ReadDirInfo, CreationDateInfo, LastModifiedDateInfo, ResourceType, IPropertyManager, Errors, ILockManager, LockManagerInfo, PropertyManagerInfo, Return2Callback, PropertyAttributes, PropertyBag, ResourcePropertyValue } from "webdav-server/lib/index.v2";
 import { Writable, Readable } from "stream";
 import MirrorRepository from "./MirrorRepository";
-import { stat, open, createReadStream, mkdir, close, createWriteStream, rename, access, Stats } from "fs";
-import { O_CREAT, R_OK, W_OK } from "constants";
+import UserRepositories from "./UserRepositories";
+import PathPolicy from "./PathPolicy";
+import SnapshotStore from "./SnapshotStore";
+import PropertyStore from "./PropertyStore";
+import { SourceStats, ByteRange } from "./sources/Source";
+import { endStream } from "./files";
+import { R_OK, W_OK } from "constants";
+
+/**
+ * Overlay served to the clients: a repository, with the dead properties
+ * and locks and the snapshots kept in its changes directory.
+ */
+export interface Workspace {
+    repository: MirrorRepository;
+    properties: PropertyStore;
+    snapshots: SnapshotStore;
+}
 
 /**
  * Exposes a read-write mirror file system, but preserving original
  * file system. No change is made to the original file system.
- * All changes are written in a overlay folder.
+ * All changes are written in a overlay folder, shared by all users or,
+ * given `UserRepositories`, one for each user. A `PathPolicy` may keep
+ * paths read-only or hidden.
  * 
  * @author Júlio César e Melo
  */
 export default class PreservingMirrorFileSystem extends FileSystem {
-    private readonly resources: {
-        [path: string]: PhysicalFileSystemResource
-    }
+    private readonly workspaces = new Map<MirrorRepository, Workspace>();
 
-    constructor(private repository: MirrorRepository, resources?: { [path: string]: PhysicalFileSystemResource }) {
+    constructor(private readonly repositories: MirrorRepository | UserRepositories, private readonly policy = new PathPolicy()) {
         super({
             uid() {
                 return 'PreservingMirroFileSystem-1.0.0';
             },
             serialize(fs: PreservingMirrorFileSystem, callback: ReturnCallback<any>): void {
-                const repo = fs.repository;
+                const repo = fs.repositories;
 
+                // Properties and locks are already saved in the changes directory.
                 callback(undefined, {
-                    remote: repo.remotePathMapping,
+                    remote: repo.remotePathMappings,
                     local: repo.localPathMapping,
-                    dirSeparator: repo.dirSeparator,
-                    resources: fs.resources
+                    dirSeparator: repo instanceof MirrorRepository ? repo.dirSeparator : undefined,
+                    perUser: repo instanceof UserRepositories,
+                    policy: fs.policy.config
                 });
             },
             unserialize(serializedData: any, callback: ReturnCallback<FileSystem>): void {
-                const fs = new PreservingMirrorFileSystem(new MirrorRepository(serializedData.remote, serializedData.local, serializedData.dirSeparator), serializedData.resources);
+                const fs = new PreservingMirrorFileSystem(serializedData.perUser
+                    ? new UserRepositories(serializedData.remote, serializedData.local)
+                    : new MirrorRepository(serializedData.remote, serializedData.local, serializedData.dirSeparator),
+                    new PathPolicy(serializedData.policy));
                 callback(undefined, fs);
             }
         });
+    }
+
+    /**
+     * Gets the workspace serving a request: the shared one, or the one of
+     * the user of the request.
+     */
+    public getWorkspace(ctx: RequestContext): Workspace {
+        // Contexts made by the server itself act as an administrator, not as a user.
+        return this.getUserWorkspace(ctx instanceof HTTPRequestContext ? getUserName(ctx) : undefined);
+    }
+
+    /**
+     * Gets the workspace of a user, or the shared one when the users share
+     * the changes directory.
+     */
+    public getUserWorkspace(username?: string): Workspace {
+        const repository = this.repositories instanceof UserRepositories ? this.repositories.get(username) : this.repositories;
+        let workspace = this.workspaces.get(repository);
+
+        if (!workspace) {
+            workspace = { repository, properties: new PropertyStore(repository.storage), snapshots: new SnapshotStore(repository) };
+            this.workspaces.set(repository, workspace);
+        }
+
+        return workspace;
+    }
+
+    /**
+     * Discards the overlay changes of a path and its descendants.
+     *
+     * @see MirrorRepository.revert
+     */
+    public async revert(workspace: Workspace, path: Path): Promise<boolean> {
+        const reverted = await workspace.repository.revert(path.toString());
+
+        await workspace.properties.delete(path.toString());
 
-        this.resources = resources || {
-            '/': new PhysicalFileSystemResource()
-        };
+        return reverted;
+    }
+
+    /**
+     * Rolls the overlay back to a snapshot, while serving requests.
+     *
+     * @see SnapshotStore.rollback
+     */
+    public async rollback(workspace: Workspace, name: string): Promise<void> {
+        await workspace.snapshots.rollback(name);
+        await workspace.properties.reload();
+    }
+
+    /**
+     * Compacts the journal of the overlay, while serving requests.
+     *
+     * @see MirrorRepository.compact
+     */
+    public compact(workspace: Workspace): Promise<number> {
+        return workspace.repository.compact();
     }
 
     protected _fastExistCheck(ctx: RequestContext, path: Path, callback: (exists: boolean) => void): void {
-        access(this.repository.getReadOnlyPath(path.toString(false)), err => {
-            if (err) {
-                callback(false);
-            } else {
-                callback(true);
-            }
-        });
+        this.stat(path, { context: ctx }).then(() => callback(true), () => callback(false));
     }
 
     protected _create(path: Path, ctx: CreateInfo, _callback: SimpleCallback): void {
-        this.repository.getReadWritePath(path.toString()).then(realPath => {
-            const callback = (e: any) => {
-                if (!e)
-                    this.resources[path.toString()] = new PhysicalFileSystemResource();
-                else if (e.code === 'EEXIST') {
-                    e = Errors.ResourceAlreadyExists;
-                }
+        const { repository, properties } = this.getWorkspace(ctx.context);
 
-                _callback(e);
-            }
+        requestStats.delete(ctx.context);
 
-            if (ctx.type.isDirectory)
-                mkdir(realPath, callback);
-            else {
-                open(realPath, O_CREAT, (e, fd) => {
-                    if (e)
-                        return callback(e);
-                    close(fd, callback);
-                });
+        const callback = (e: any) => {
+            if (!e)
+                return properties.delete(path.toString()).then(() => _callback(), _callback);
+            else if (e.code === 'EEXIST') {
+                e = Errors.ResourceAlreadyExists;
             }
-        }, err => _callback(err));
+
+            _callback(toWebDAVError(e));
+        }
+
+        if (!this.policy.isWritable(path.toString())) {
+            _callback(Errors.Forbidden);
+        } else if (ctx.type.isDirectory) {
+            repository.createDirectory(path.toString(), getUserName(ctx.context)).then(() => callback(undefined), callback);
+        } else {
+            repository.createFile(path.toString(), getUserName(ctx.context)).then(() => callback(undefined), callback);
+        }
     }
 
-    // protected _etag?(path : Path, ctx : ETagInfo, callback : ReturnCallback<string>) : void {}
+    protected _etag(path: Path, ctx: ETagInfo, callback: ReturnCallback<string>): void {
+        const { repository } = this.getWorkspace(ctx.context);
+
+        Promise.all([this.stat(path, ctx), repository.getWrites(path.toString())])
+            .then(([stats, writes]) => callback(undefined, getETag(stats, writes)), err => callback(err));
+    }
 
     protected _delete(path: Path, ctx: DeleteInfo, _callback: SimpleCallback): void {
+        const { repository, properties } = this.getWorkspace(ctx.context);
+
+        requestStats.delete(ctx.context);
+
         const callback = (e: any) => {
             if (!e)
-                delete this.resources[path.toString()];
+                return properties.delete(path.toString()).then(() => _callback(), _callback);
             _callback(e);
         }
 
-        this.type(ctx.context, path, (e, type) => {
-            if (e)
-                return callback(Errors.ResourceNotFound);
+        // Checks the whole tree before deleting any of it.
+        this.checkPolicy(repository, path, remotePath => !this.policy.isWritable(remotePath), true).then(() => {
+            this.type(ctx.context, path, (e, type) => {
+                if (e)
+                    return callback(Errors.ResourceNotFound);
 
-            if (type!.isDirectory) {
-                if (ctx.depth === 0) {
-                    this.repository.removePath(path.toString()).then(() => _callback(undefined), err => callback(err));
-                }
+                if (type!.isDirectory) {
+                    if (ctx.depth === 0) {
+                        repository.removePath(path.toString(), getUserName(ctx.context)).then(() => _callback(undefined), err => callback(err));
+                    }
 
-                this.readDir(ctx.context, path, (e, files) => {
-                    if (e) {
-                        callback(e);
-                    } else {
-                        let nb = files!.length + 1;
-                        const done = (e?: Error) => {
-                            if (nb < 0)
-                                return;
-
-                            if (e) {
-                                nb = -1;
-                                return callback(e);
+                    this.readDir(ctx.context, path, (e, files) => {
+                        if (e) {
+                            callback(e);
+                        } else {
+                            let nb = files!.length + 1;
+                            const done = (e?: Error) => {
+                                if (nb < 0)
+                                    return;
+
+                                if (e) {
+                                    nb = -1;
+                                    return callback(e);
+                                }
+
+                                if (--nb === 0) {
+                                    repository.removePath(path.toString(), getUserName(ctx.context)).then(() => callback(undefined), err => callback(err));
+                                }
                             }
 
-                            if (--nb === 0) {
-                                this.repository.removePath(path.toString()).then(() => callback(undefined), err => callback(err));
-                            }
+                            files!.forEach((file) => this.delete(ctx.context, path.getChildPath(file), ctx.depth === -1 ? -1 : ctx.depth - 1, done));
+                            done();
                         }
-
-                        files!.forEach((file) => this.delete(ctx.context, path.getChildPath(file), ctx.depth === -1 ? -1 : ctx.depth - 1, done));
-                        done();
-                    }
-                })
-            }
-            else {
-                this.repository.removePath(path.toString()).then(() => callback(undefined), err => callback(err));
-            }
-        })
+                    })
+                }
+                else {
+                    repository.removePath(path.toString(), getUserName(ctx.context)).then(() => callback(undefined), err => callback(err));
+                }
+            })
+        }, callback);
     }
 
     protected _openWriteStream(path: Path, ctx: OpenWriteStreamInfo, callback: ReturnCallback<Writable>): void {
-        this.repository.getReadWritePath(path.toString()).then(realPath => {
-            open(realPath, 'w+', (e, fd) => {
-                if (e) {
-                    return callback(Errors.ResourceNotFound);
-                }
+        if (!this.policy.isWritable(path.toString())) {
+            return callback(Errors.Forbidden);
+        }
 
-                callback(undefined, createWriteStream(realPath, { fd }));
-            });
-        }, err => callback(err));
+        const { repository } = this.getWorkspace(ctx.context);
+        const contentRange = ctx.context.headers.find('Content-Range');
+
+        requestStats.delete(ctx.context);
+
+        if (contentRange) {
+            return this.openRangeWriteStream(repository, path, ctx, contentRange, callback);
+        }
+
+        repository.prepareOverwrite(path.toString(), getUserName(ctx.context)).then(() => repository.getWritableBytes(path.toString())).then(writable => {
+            if (ctx.estimatedSize > writable) {
+                return callback(Errors.InsufficientStorage);
+            }
+
+            repository.createWriteStream(path.toString()).then(file => {
+                callback(undefined, this.createQuotaWriteStream(repository, path, ctx.context, file, writable));
+            }, () => callback(Errors.ResourceNotFound));
+        }, err => callback(toWebDAVError(err)));
     }
 
-    protected _openReadStream(path: Path, ctx: OpenReadStreamInfo, callback: ReturnCallback<Readable>): void {
-        const realPath = this.repository.getReadOnlyPath(path.toString());
+    /**
+     * Writes the range of a file given by the `Content-Range` of a partial
+     * PUT (`bytes <start>-<end>/<size>`, or `/*` to keep the size).
+     */
+    private openRangeWriteStream(repository: MirrorRepository, path: Path, ctx: OpenWriteStreamInfo, contentRange: string, callback: ReturnCallback<Writable>): void {
+        const range = parseContentRange(contentRange);
+
+        if (!range || (ctx.estimatedSize > 0 && ctx.estimatedSize !== range.end - range.start + 1)) {
+            return callback(Errors.IllegalArguments);
+        }
 
-        open(realPath, 'r', (e, fd) => {
-            if (e)
-                return callback(Errors.ResourceNotFound);
+        repository.createRangeWriteStream(path.toString(), range, range.size, getUserName(ctx.context)).then(file => {
+            // The range was checked against the quota, but not the body against the range.
+            callback(undefined, this.createQuotaWriteStream(repository, path, ctx.context, file, range.end - range.start + 1));
+        }, err => callback(toWebDAVError(err)));
+    }
 
-            callback(undefined, createReadStream(realPath, { fd }));
+    /**
+     * Wraps the stream writing a file, updating the usage once it is closed.
+     * The new ETag of the file is given on the response, for the client to
+     * send it back on its next conditional request.
+     */
+    private createQuotaWriteStream(repository: MirrorRepository, path: Path, ctx: RequestContext, file: Writable, limit: number): QuotaWriteStream {
+        const stream: QuotaWriteStream = new QuotaWriteStream(file, limit, async finished => {
+            bytesWritten.set(ctx, stream.bytesWritten);
+            await repository.updateUsage(path.toString());
+            await repository.countWrite(path.toString());
+
+            if (finished && ctx instanceof HTTPRequestContext) {
+                ctx.response.setHeader('ETag', getETag(await repository.stat(path.toString()), await repository.getWrites(path.toString())));
+            }
         });
+
+        return stream;
+    }
+
+    protected _openReadStream(path: Path, ctx: OpenReadStreamInfo, callback: ReturnCallback<Readable>): void {
+        if (this.policy.isHidden(path.toString())) {
+            return callback(Errors.ResourceNotFound);
+        }
+
+        this.getWorkspace(ctx.context).repository.createReadStream(path.toString()).then(stream => callback(undefined, stream), () => callback(Errors.ResourceNotFound));
     }
 
     protected _move(pathFrom: Path, pathTo: Path, ctx: MoveInfo, callback: ReturnCallback<boolean>): void {
-        const paths = Promise.all<string>([
-            this.repository.getReadWritePath(pathFrom.toString()),
-            this.repository.getReadWritePath(pathTo.toString())
-        ]);
-
-        paths.then(([realPathFrom, realPathTo]) => {
-            const localRename = (overwritten: boolean) => {
-                rename(realPathFrom, realPathTo, (e) => {
-                    if (e)
-                        return callback(e);
-
-                    this.resources[realPathTo] = this.resources[realPathFrom];
-                    delete this.resources[realPathFrom];
-                    this.repository.removePath(pathFrom.toString());
-                    callback(undefined, overwritten);
-                });
-            };
+        const { repository, properties } = this.getWorkspace(ctx.context);
 
-            access(realPathTo, (e) => {
-                if (e) { // destination doesn't exist
-                    localRename(false);
-                }
-                else { // destination exists
-                    if (!ctx.overwrite)
-                        return callback(Errors.ResourceAlreadyExists);
-
-                    this.delete(ctx.context, pathTo, (e) => {
-                        if (e)
-                            return callback(e);
-                        localRename(true);
-                    });
-                }
-            })
-        }, err => callback(err));
+        requestStats.delete(ctx.context);
+
+        this.checkMove(repository, pathFrom, pathTo).then(() => this.prepareDestination(ctx.context, pathTo, ctx.overwrite)).then(overwritten => {
+            return repository.move(pathFrom.toString(), pathTo.toString(), getUserName(ctx.context))
+                .then(() => properties.move(pathFrom.toString(), pathTo.toString()))
+                .then(() => callback(undefined, overwritten));
+        }).catch(err => callback(toWebDAVError(err)));
+    }
+
+    protected _copy(pathFrom: Path, pathTo: Path, ctx: CopyInfo, callback: ReturnCallback<boolean>): void {
+        // The COPY method does not pass its Depth header down.
+        const depth = ctx.context.headers.depth !== undefined ? ctx.context.headers.depth : ctx.depth;
+        const { repository, properties } = this.getWorkspace(ctx.context);
+
+        requestStats.delete(ctx.context);
+
+        // A copy may read read-only paths, but not reveal hidden ones.
+        this.checkPolicy(repository, pathFrom, remotePath => this.policy.isHidden(remotePath), depth !== 0)
+            .then(() => this.checkPolicy(repository, pathTo, remotePath => !this.policy.isWritable(remotePath), false))
+            .then(() => this.prepareDestination(ctx.context, pathTo, ctx.overwrite)).then(overwritten => {
+            return repository.copy(pathFrom.toString(), pathTo.toString(), depth, getUserName(ctx.context))
+                .then(() => properties.copy(pathFrom.toString(), pathTo.toString()))
+                .then(() => callback(undefined, overwritten));
+        }).catch(err => callback(toWebDAVError(err)));
+    }
+
+    protected _rename(pathFrom: Path, newName: string, ctx: RenameInfo, callback: ReturnCallback<boolean>): void {
+        const { repository, properties } = this.getWorkspace(ctx.context);
+
+        requestStats.delete(ctx.context);
+
+        this.checkMove(repository, pathFrom, ctx.destinationPath)
+            .then(() => repository.move(pathFrom.toString(), ctx.destinationPath.toString(), getUserName(ctx.context)))
+            .then(() => properties.move(pathFrom.toString(), ctx.destinationPath.toString()))
+            .then(() => callback(undefined, false), err => callback(toWebDAVError(err)));
+    }
+
+    private checkMove(repository: MirrorRepository, pathFrom: Path, pathTo: Path): Promise<void> {
+        const protects = (remotePath: string) => !this.policy.isWritable(remotePath);
+
+        return this.checkPolicy(repository, pathFrom, protects, true).then(() => this.checkPolicy(repository, pathTo, protects, false));
+    }
+
+    /**
+     * Fails as forbidden when the policy protects a path, or, for a tree,
+     * any path under it.
+     */
+    private async checkPolicy(repository: MirrorRepository, path: Path, protects: (remotePath: string) => boolean, tree: boolean): Promise<void> {
+        if (protects(path.toString())) {
+            throw Errors.Forbidden;
+        } else if (!tree || !this.policy.restricts) {
+            return;
+        }
+
+        const stats = await repository.stat(path.toString()).catch(() => undefined);
+
+        if (stats && stats.isDirectory()) {
+            for (const file of await repository.readDir(path.toString())) {
+                await this.checkPolicy(repository, path.getChildPath(file), protects, true);
+            }
+        }
+    }
+
+    /**
+     * Checks the parent of the destination of a copy or a move, and deletes
+     * the destination if it exists and may be overwritten.
+     *
+     * @returns Whether the destination was overwritten.
+     */
+    private async prepareDestination(ctx: RequestContext, pathTo: Path, overwrite: boolean): Promise<boolean> {
+        const { repository } = this.getWorkspace(ctx);
+        const parent = await repository.stat(pathTo.getParent().toString()).catch(() => undefined);
+
+        if (!parent || !parent.isDirectory()) {
+            throw Errors.IntermediateResourceMissing;
+        }
+
+        const exists = await repository.stat(pathTo.toString()).then(() => true, () => false);
+
+        if (!exists) {
+            return false;
+        } else if (!overwrite) {
+            throw Errors.ResourceAlreadyExists;
+        }
+
+        await new Promise((resolve, reject) => this.delete(ctx, pathTo, -1, e => e ? reject(e) : resolve()));
+
+        return true;
     }
 
-    // protected _copy?(pathFrom : Path, pathTo : Path, ctx : CopyInfo, callback : ReturnCallback<boolean>) : void {}
-    // protected _rename?(pathFrom : Path, newName : string, ctx : RenameInfo, callback : ReturnCallback<boolean>) : void {}
     // protected _mimeType?(path : Path, ctx : MimeTypeInfo, callback : ReturnCallback<string>) : void {}
 
     protected _size(path: Path, ctx: SizeInfo, callback: ReturnCallback<number>): void {
@@ -194,8 +373,8 @@ export default class PreservingMirrorFileSystem extends FileSystem {
 
     // protected _availableLocks?(path : Path, ctx : AvailableLocksInfo, callback : ReturnCallback<LockKind[]>) : void {}
     protected _readDir(path: Path, ctx: ReadDirInfo, callback: ReturnCallback<string[] | Path[]>): void {
-        this.repository.readDir(path.toString()).then(files => {
-            callback(undefined, files)
+        this.getWorkspace(ctx.context).repository.readDir(path.toString()).then(files => {
+            callback(undefined, files.filter(file => !this.policy.isHidden(path.getChildPath(file).toString())));
         }, err => {
             console.error('Cannot read directory!', path.toString(), err);
 
@@ -212,9 +391,7 @@ export default class PreservingMirrorFileSystem extends FileSystem {
     }
 
     protected getStatProperty(path: Path, ctx: any, propertyName: string, callback: ReturnCallback<any>): void {
-        const realPath = this.repository.getReadOnlyPath(path.toString());
-
-        this.stat(realPath, ctx).then(stat => {
+        this.stat(path, ctx).then(stat => {
             if (propertyName === 'mode') {
                 let mode = stat.mode;
 
@@ -241,56 +418,40 @@ export default class PreservingMirrorFileSystem extends FileSystem {
     // protected _displayName?(path : Path, ctx : DisplayNameInfo, callback : ReturnCallback<string>) : void {}
     //    protected _privilegeManager?(path : Path, info : PrivilegeManagerInfo, callback : ReturnCallback<PrivilegeManager>)
 
-    /**
-     * Get a property of an existing resource (object property, not WebDAV property). If the resource doesn't exist, it is created.
-     * 
-     * (Copied from PhysicalFileSystem.ts)
-     * 
-     * @param path Path of the resource
-     * @param ctx Context of the method
-     * @param propertyName Name of the property to get from the resource
-     * @param callback Callback returning the property object of the resource
-     */
-    protected getPropertyFromResource(path: Path, ctx: any, propertyName: string, _callback: ReturnCallback<any>): void {
-        let resource = this.resources[path.toString()];
-        const callback = () => _callback(undefined, (resource as any)[propertyName]);
-
-        if (resource) {
-            callback();
-        } else {
-            this.stat(this.repository.getReadOnlyPath(path.toString()), ctx).then(stats => {
-                resource = new PhysicalFileSystemResource();
-
-                if (stats.mode & 0o111) {
-                    // NÃO ESTÁ FUNCIONANDO
-                    resource.props.setProperty("http://apache.org/dav/props/executable",
-                        '', {
-                            xmlns: "http://apache.org/dav/props/"
-                        },
-                        () => {
-                            this.resources[path.toString()] = resource;
-                            callback();
-                        });
-                } else {
-                    this.resources[path.toString()] = resource;
-                    callback();
-                }
-            }, err => _callback(err));
-        }
-    }
-
     protected _lockManager(path: Path, ctx: LockManagerInfo, callback: ReturnCallback<ILockManager>): void {
-        this.getPropertyFromResource(path, ctx, 'locks', callback);
+        this.stat(path, ctx).then(() => this.getWorkspace(ctx.context).properties.get(path.toString())).then(resource => callback(undefined, resource.locks), err => callback(err));
     }
 
     protected _propertyManager(path: Path, ctx: PropertyManagerInfo, callback: ReturnCallback<IPropertyManager>): void {
-        this.getPropertyFromResource(path, ctx, 'props', callback);
+        const { repository, properties } = this.getWorkspace(ctx.context);
+
+        this.stat(path, ctx).then(async stats => {
+            const live: PropertyBag = {};
+
+            if (stats.isFile()) {
+                const drift = await repository.drift(path.toString());
+
+                live[EXECUTABLE] = { value: (stats.mode & 0o111) !== 0 ? 'T' : 'F', attributes: EXECUTABLE_ATTRIBUTES };
+
+                if (drift) {
+                    live[SOURCE_DRIFT] = { value: drift, attributes: SOURCE_DRIFT_ATTRIBUTES };
+                }
+            } else {
+                const used = repository.usage.bytes;
+
+                live[QUOTA_USED_BYTES] = { value: used.toString(), attributes: DAV_ATTRIBUTES };
+
+                if (repository.quota.bytes !== undefined) {
+                    live[QUOTA_AVAILABLE_BYTES] = { value: Math.max(0, repository.quota.bytes - used).toString(), attributes: DAV_ATTRIBUTES };
+                }
+            }
+
+            callback(undefined, new PMFSPropertyManager((await properties.get(path.toString())).props, live));
+        }).catch(err => callback(err));
     }
 
     protected _type(path: import("webdav-server/lib/index.v2").Path, ctx: import("webdav-server/lib/index.v2").TypeInfo, callback: import("webdav-server/lib/index.v2").ReturnCallback<import("webdav-server/lib/index.v2").ResourceType>): void {
-        const localPath = this.repository.getReadOnlyPath(path.toString());
-
-        this.stat(localPath, ctx).then(stats => {
+        this.stat(path, ctx).then(stats => {
             if (stats.isDirectory()) {
                 callback(undefined, ResourceType.Directory);
             } else {
@@ -299,31 +460,36 @@ export default class PreservingMirrorFileSystem extends FileSystem {
         }, err => callback(new Error(err.message)));
     }
 
-    protected async stat(localPath: string, ctx: any): Promise<Stats> {
-        let stats: WPMStats = ctx.$wpmStats;
+    /**
+     * Stats a resource, once per request: the stats are cached until the
+     * request changes a resource.
+     */
+    protected async stat(path: Path, ctx: { context: RequestContext }): Promise<SourceStats> {
+        let stats = requestStats.get(ctx.context);
 
         if (!stats) {
             stats = {};
-            ctx.$wpmStats = {};
+            requestStats.set(ctx.context, stats);
         }
 
-        let result = stats[localPath];
+        const remotePath = path.toString();
+        let result = stats[remotePath];
+
+        if (this.policy.isHidden(remotePath)) {
+            throw Errors.ResourceNotFound;
+        }
 
         if (!result) {
-            return new Promise((resolve, reject) => {
-                stat(localPath, (err, data) => {
-                    if (err) {
-                        if (err.code === 'ENOENT') {
-                            reject(Errors.ResourceNotFound);
-                        } else {
-                            console.error('Cannot stat local path.', localPath, err, err.stack);
-                            reject(err);
-                        }
-                    } else {
-                        stats[localPath] = data;
-                        resolve(data);
-                    }
-                });
+            return this.getWorkspace(ctx.context).repository.stat(remotePath).then(data => {
+                stats![remotePath] = data;
+                return data;
+            }, err => {
+                if (err.code === 'ENOENT' || err.code === 'ENOTDIR') {
+                    throw Errors.ResourceNotFound;
+                } else {
+                    console.error('Cannot stat path.', remotePath, err, err.stack);
+                    throw err;
+                }
             });
         } else {
             return result;
@@ -331,10 +497,168 @@ export default class PreservingMirrorFileSystem extends FileSystem {
     }
 }
 
-type WPMStats = { [localPath: string]: Stats };
+type WPMStats = { [remotePath: string]: SourceStats };
+
+/**
+ * Stats of the resources, cached for each request (see `stat`).
+ */
+const requestStats = new WeakMap<RequestContext, WPMStats>();
+
+/**
+ * Bytes written to a file by each request.
+ */
+const bytesWritten = new WeakMap<RequestContext, number>();
+
+/**
+ * Gets the bytes a request wrote to a file, if it wrote one.
+ */
+export function getBytesWritten(ctx: RequestContext): number | undefined {
+    return bytesWritten.get(ctx);
+}
+
+/**
+ * Strong ETag of a resource, from its size, its modification time and the
+ * writes made to its local version, as two writes may share a millisecond.
+ * As a copy-up keeps the modification time of the source file, and makes
+ * no write, the ETag of a file only changes with its content.
+ */
+function getETag(stats: SourceStats, writes: number): string {
+    return `"${stats.size.toString(16)}-${stats.mtime.getTime().toString(16)}${writes > 0 ? `-${writes.toString(16)}` : ''}"`;
+}
+
+/**
+ * Parses a `Content-Range` header, with the new size of the file if given.
+ */
+function parseContentRange(value: string): ByteRange & { size?: number } | undefined {
+    const match = /^bytes\s+(\d+)-(\d+)\/(\d+|\*)$/i.exec(value.trim());
+
+    if (!match) {
+        return undefined;
+    }
+
+    const range = { start: Number(match[1]), end: Number(match[2]), size: match[3] !== '*' ? Number(match[3]) : undefined };
+
+    return range.start <= range.end && (range.size === undefined || range.end < range.size) ? range : undefined;
+}
+
+/**
+ * Converts the errors of the repository that have a WebDAV status of their
+ * own.
+ */
+function toWebDAVError(err: any): any {
+    return err && err.code === 'EDQUOT' ? Errors.InsufficientStorage : err;
+}
+
+/**
+ * Name of the user of a request, recorded on the journal, unless anonymous.
+ */
+function getUserName(ctx: RequestContext): string | undefined {
+    return ctx.user && !ctx.user.isDefaultUser ? ctx.user.username : undefined;
+}
+
+const EXECUTABLE = 'lp2:executable';
+const EXECUTABLE_ATTRIBUTES = { 'xmlns:lp2': 'http://apache.org/dav/props/' };
+
+/**
+ * How the source of a copied up file changed since its copy-up (see
+ * `MirrorRepository.drift`), so that clients can warn that the local
+ * version shadows a newer original.
+ */
+const SOURCE_DRIFT = 'wpm:source-drift';
+const SOURCE_DRIFT_ATTRIBUTES = { 'xmlns:wpm': 'https://github.com/juliomelo/webdav-preserving-mirror' };
+
+/**
+ * Quota properties of RFC 4331, reporting the overlay usage on collections.
+ * The names are given as expanded by the PROPFIND parser, and the prefix is
+ * declared on each property.
+ */
+const QUOTA_USED_BYTES = 'DAV:quota-used-bytes';
+const QUOTA_AVAILABLE_BYTES = 'DAV:quota-available-bytes';
+const DAV_ATTRIBUTES = { 'xmlns:DAV': 'DAV:' };
+
+/**
+ * Property manager of a resource, adding live properties (computed from the
+ * file, such as the executable property of Apache mod_dav) to its dead
+ * properties.
+ */
+class PMFSPropertyManager implements IPropertyManager {
+    constructor(private readonly props: IPropertyManager, private readonly live: PropertyBag) {
+    }
+
+    setProperty(name: string, value: ResourcePropertyValue, attributes: PropertyAttributes, callback: SimpleCallback): void {
+        this.props.setProperty(name, value, attributes, callback);
+    }
 
-class PMFSPropertyManager extends LocalPropertyManager {
     getProperty(name: string, callback: Return2Callback<ResourcePropertyValue, PropertyAttributes>): void {
+        if (this.live[name]) {
+            callback(undefined, this.live[name].value, this.live[name].attributes);
+        } else {
+            this.props.getProperty(name, callback);
+        }
+    }
 
+    removeProperty(name: string, callback: SimpleCallback): void {
+        this.props.removeProperty(name, callback);
     }
-}
\ No newline at end of file
+
+    getProperties(callback: ReturnCallback<PropertyBag>, byCopy?: boolean): void {
+        this.props.getProperties((e, properties) => {
+            if (e) {
+                return callback(e, properties);
+            }
+
+            callback(undefined, Object.assign({}, properties, this.live));
+        }, byCopy);
+    }
+}
+
+/**
+ * Stream writing a file within the quota: it fails as insufficient storage
+ * once more than the writable bytes are written. It calls back once the
+ * file is written, or failed, for the usage of the overlay to be updated.
+ */
+class QuotaWriteStream extends Writable {
+    public bytesWritten = 0;
+    private closing?: Promise<void>;
+
+    /**
+     * @param onClose Called once the file is written or failed, telling
+     * whether it was written whole.
+     */
+    constructor(private readonly file: Writable, private readonly limit: number, private readonly onClose: (finished: boolean) => Promise<void>) {
+        super();
+        file.once('error', err => this.destroy(err));
+    }
+
+    _write(chunk: Buffer, encoding: string, callback: (err?: Error) => void): void {
+        this.bytesWritten += chunk.length;
+
+        if (this.bytesWritten > this.limit) {
+            return callback(Errors.InsufficientStorage);
+        }
+
+        this.file.write(chunk, callback);
+    }
+
+    _final(callback: (err?: Error) => void): void {
+        endStream(this.file)
+            .then(() => this.close(true), err => this.close(false).then(() => Promise.reject(err)))
+            .then(() => callback(), callback);
+    }
+
+    _destroy(err: Error | null, callback: (err?: Error) => void): void {
+        this.file.destroy();
+        this.close(false).then(() => callback(err || undefined), () => callback(err || undefined));
+    }
+
+    /**
+     * Calls back a single time, as a finished stream is destroyed too.
+     */
+    private close(finished: boolean): Promise<void> {
+        if (!this.closing) {
+            this.closing = this.onClose(finished);
+        }
+
+        return this.closing;
+    }
+}
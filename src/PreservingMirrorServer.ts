@@ -0,0 +1,325 @@
+import { v2 as webdav } from "webdav-server";
+import { EventEmitter } from "events";
+import { readFileSync } from "fs";
+import * as http from "http";
+import * as https from "https";
+import * as path from "path";
+import PreservingMirrorFileSystem, { getBytesWritten } from "./PreservingMirrorFileSystem";
+import MirrorRepository from "./MirrorRepository";
+import UserRepositories from "./UserRepositories";
+import PathPolicy from "./PathPolicy";
+import checkPreconditions from "./Preconditions";
+import resolvePathCase from "./PathCase";
+import AuditLog from "./AuditLog";
+import AdminApi from "./AdminApi";
+import ServerStats from "./ServerStats";
+import { JournalRecord } from "./Journal";
+import { ServerConfig, MountConfig, AuthConfig, DEFAULT_PORT, readUsers, validateConfig } from "./config";
+
+/**
+ * Options of an embedded server: a server configuration, where only the
+ * mounts are required. The audit log is off unless configured.
+ */
+export type ServerOptions = Partial<ServerConfig> & Pick<ServerConfig, 'mounts'>;
+
+/**
+ * A change made on a mount. Paths are WebDAV paths on the server, with the
+ * mount prefix.
+ */
+export interface ChangeEvent {
+    mount: string;
+    path: string;
+    user?: string;
+}
+
+export interface CopyUpEvent extends ChangeEvent {
+    /**
+     * Size of the source file copied up; missing for a directory.
+     */
+    bytes?: number;
+}
+
+export interface WriteEvent extends ChangeEvent {
+    created: boolean;
+    bytes?: number;
+}
+
+/**
+ * A request the server failed to answer, with a 5xx status.
+ */
+export interface RequestErrorEvent extends ChangeEvent {
+    method: string;
+    status: number;
+}
+
+export interface PreservingMirrorServerEvents {
+    'start': () => void;
+    'stop': () => void;
+    'copy-up-start': (event: ChangeEvent) => void;
+    'copy-up': (event: CopyUpEvent) => void;
+
+    /**
+     * A path deleted from the overlay, or hidden by a whiteout when it is on
+     * the source.
+     */
+    'delete': (event: ChangeEvent) => void;
+    'write': (event: WriteEvent) => void;
+
+    /**
+     * A failed request, or a failure of the HTTP server once started.
+     * Only emitted when listened to.
+     */
+    'error': (err: Error, event?: RequestErrorEvent) => void;
+}
+
+export default interface PreservingMirrorServer {
+    on<E extends keyof PreservingMirrorServerEvents>(event: E, listener: PreservingMirrorServerEvents[E]): this;
+    once<E extends keyof PreservingMirrorServerEvents>(event: E, listener: PreservingMirrorServerEvents[E]): this;
+    off<E extends keyof PreservingMirrorServerEvents>(event: E, listener: PreservingMirrorServerEvents[E]): this;
+    emit<E extends keyof PreservingMirrorServerEvents>(event: E, ...args: Parameters<PreservingMirrorServerEvents[E]>): boolean;
+}
+
+/**
+ * Mirrors served over WebDAV, each mount with its own changes directory,
+ * as run by `wpm serve`, to embed in another application.
+ *
+ * Emits the changes made through the server (see
+ * `PreservingMirrorServerEvents`). With an admin token, the admin API is
+ * served under `/.wpm/` (see `AdminApi`).
+ */
+export default class PreservingMirrorServer extends EventEmitter {
+    public readonly config: ServerConfig;
+    public readonly webdav: webdav.WebDAVServer;
+
+    /**
+     * Repositories of each mount, by mount prefix.
+     */
+    public readonly repositories = new Map<string, MirrorRepository | UserRepositories>();
+
+    /**
+     * Latency of the requests and latest errors, reported by the admin API.
+     */
+    public readonly stats = new ServerStats();
+
+    /**
+     * Audit log of the changes, made through WebDAV or the admin API.
+     */
+    public readonly audit: AuditLog;
+    private readonly admin?: AdminApi;
+    private httpServer?: http.Server | https.Server;
+
+    constructor(options: ServerOptions) {
+        super();
+
+        this.config = validateConfig({
+            ...options,
+            port: options.port !== undefined ? options.port : DEFAULT_PORT,
+            audit: options.audit || { path: '-', level: 'off' }
+        });
+        this.audit = new AuditLog(this.config.audit);
+        this.admin = this.config.admin && new AdminApi(this, this.config.admin);
+        this.webdav = new webdav.WebDAVServer({
+            requireAuthentification: !!this.config.auth,
+            httpAuthentication: this.config.auth && createAuthentication(this.config.auth)
+        });
+
+        for (const mount of this.config.mounts) {
+            this.mount(mount);
+        }
+
+        this.webdav.beforeRequest((ctx, next) => {
+            requestStarts.set(ctx, Date.now());
+            next();
+        });
+        this.webdav.beforeRequest(resolvePathCase);
+        this.webdav.beforeRequest(checkPreconditions);
+
+        this.webdav.afterRequest((ctx, next) => {
+            // The body a failed request left unread, as over the quota, is
+            // discarded for the connection to serve the next requests.
+            if (ctx.request.readable) {
+                ctx.request.unpipe();
+                ctx.request.resume();
+            }
+
+            this.stats.recordRequest(ctx.request.method!.toUpperCase(), Date.now() - (requestStarts.get(ctx) || Date.now()));
+            this.audit.logRequest(ctx);
+            this.emitRequest(ctx);
+            next();
+        });
+    }
+
+    /**
+     * Address the server listens on, once started.
+     */
+    public get address(): { address: string, family: string, port: number } | undefined {
+        return this.httpServer && this.httpServer.listening ? this.httpServer.address() : undefined;
+    }
+
+    /**
+     * Starts listening, resolving once the server is ready: once every
+     * repository is loaded. Rejects when one cannot be, as when another
+     * process holds the lock on its changes (see `OverlayStorage.lock`),
+     * after closing the others.
+     */
+    public start(): Promise<void> {
+        if (this.httpServer) {
+            return Promise.reject(new Error('The server is already started.'));
+        }
+
+        const handler = (req: http.IncomingMessage, res: http.ServerResponse) => {
+            if (this.admin && AdminApi.isAdminRequest(req)) {
+                this.admin.handle(req, res);
+            } else {
+                this.webdav.executeRequest(req, res);
+            }
+        };
+        const tls = this.config.https;
+        const httpServer = this.httpServer = tls
+            ? https.createServer({
+                cert: readFileSync(tls.cert),
+                key: readFileSync(tls.key),
+                ca: tls.ca ? readFileSync(tls.ca) : undefined
+            }, handler)
+            : http.createServer(handler);
+
+        const repositories = Array.from(this.repositories.values());
+        const fail = (err: Error) => {
+            this.httpServer = undefined;
+
+            return Promise.all(repositories.map(repository => repository.close())).then(() => Promise.reject(err));
+        };
+
+        return Promise.all(repositories.map(repository => repository.ready())).then(() => new Promise<void>((resolve, reject) => {
+            httpServer.once('error', reject);
+            httpServer.listen(this.config.port, this.config.host, () => {
+                httpServer.removeListener('error', reject);
+                httpServer.on('error', err => this.emitError(err));
+                this.emit('start');
+                resolve();
+            });
+        })).catch(fail);
+    }
+
+    /**
+     * Stops listening, resolving once the open connections are closed and
+     * the repositories have saved their index.
+     */
+    public async stop(): Promise<void> {
+        const httpServer = this.httpServer;
+
+        if (!httpServer) {
+            return;
+        }
+
+        this.httpServer = undefined;
+
+        await new Promise<void>((resolve, reject) => {
+            httpServer.close((err?: Error) => {
+                this.audit.close().then(() => err ? reject(err) : resolve(), reject);
+            });
+        });
+
+        for (const repositories of Array.from(this.repositories.values())) {
+            await repositories.close();
+        }
+
+        this.emit('stop');
+    }
+
+    private mount(mount: MountConfig) {
+        const source = typeof mount.source === 'string' ? mount.source.split(path.delimiter) : mount.source;
+        let repositories: MirrorRepository | UserRepositories;
+
+        if (this.config.auth && !this.config.auth.shared) {
+            repositories = new UserRepositories(source, mount.changes, mount.quota, mount.deltaThreshold, mount.caseInsensitive);
+        } else {
+            repositories = new MirrorRepository(source, mount.changes);
+            repositories.quota = mount.quota || {};
+            repositories.deltaThreshold = mount.deltaThreshold;
+            repositories.caseInsensitive = !!mount.caseInsensitive;
+        }
+
+        repositories.on('copy-up-start', (remotePath: string, user?: string) => {
+            this.emit('copy-up-start', { mount: mount.path, path: joinPath(mount.path, remotePath), user });
+        });
+        repositories.on('record', (record: JournalRecord) => {
+            this.audit.logRecord(mount.path, record);
+            this.emitRecord(mount.path, record);
+        });
+
+        this.repositories.set(mount.path, repositories);
+        this.webdav.setFileSystemSync(mount.path, new PreservingMirrorFileSystem(repositories, new PathPolicy(mount.policy)));
+    }
+
+    private emitRecord(mountPath: string, record: JournalRecord) {
+        const event = { mount: mountPath, path: joinPath(mountPath, record.path), user: record.user };
+
+        if (record.op === 'copy-up') {
+            this.emit('copy-up', { ...event, bytes: record.base && record.base.size });
+        } else if (record.op === 'delete') {
+            this.emit('delete', event);
+        }
+    }
+
+    /**
+     * Emits the writes once answered, and the requests that failed.
+     */
+    private emitRequest(ctx: webdav.HTTPRequestContext) {
+        const method = ctx.request.method!.toUpperCase();
+        const status = ctx.response.statusCode;
+        const requestPath = ctx.requested.path.toString();
+        const mount = this.findMount(requestPath);
+        const event = { mount: mount ? mount.path : '/', path: requestPath, user: ctx.user && !ctx.user.isDefaultUser ? ctx.user.username : undefined };
+
+        if (status >= 500) {
+            this.emitError(new Error(`${method} ${requestPath} failed with status ${status}.`), { ...event, method, status });
+        } else if (method === 'PUT' && status < 300) {
+            this.emit('write', { ...event, created: status === 201, bytes: getBytesWritten(ctx) });
+        }
+    }
+
+    private emitError(err: Error, event?: RequestErrorEvent) {
+        this.stats.recordError(err, event);
+
+        // An unhandled `error` event would throw.
+        if (this.listenerCount('error') > 0) {
+            this.emit('error', err, event);
+        }
+    }
+
+    /**
+     * Finds the mount serving a path: the one with the longest prefix.
+     */
+    private findMount(requestPath: string): MountConfig | undefined {
+        return this.config.mounts
+            .filter(mount => mount.path === '/' || requestPath === mount.path || requestPath.startsWith(mount.path + '/'))
+            .sort((a, b) => b.path.length - a.path.length)[0];
+    }
+}
+
+/**
+ * Times of arrival of the requests, for their latency.
+ */
+const requestStarts = new WeakMap<webdav.HTTPRequestContext, number>();
+
+/**
+ * Creates a server, to be started.
+ */
+export function createPreservingMirrorServer(options: ServerOptions): PreservingMirrorServer {
+    return new PreservingMirrorServer(options);
+}
+
+function joinPath(mountPath: string, remotePath: string): string {
+    return mountPath.replace(/\/$/, '') + remotePath;
+}
+
+function createAuthentication(auth: AuthConfig): webdav.HTTPAuthentication {
+    const userManager = new webdav.SimpleUserManager();
+
+    readUsers(auth.users).forEach((password, username) => userManager.addUser(username, password));
+
+    return auth.type === 'digest'
+        ? new webdav.HTTPDigestAuthentication(userManager, auth.realm)
+        : new webdav.HTTPBasicAuthentication(userManager, auth.realm);
+}
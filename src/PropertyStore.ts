@@ -0,0 +1,279 @@
+import { LocalPropertyManager, LocalLockManager, PropertyBag, Lock, LockKind, LockScope, LockType, ResourcePropertyValue, PropertyAttributes, SimpleCallback, ReturnCallback, Return2Callback, Errors } from "webdav-server/lib/index.v2";
+
+import OverlayStorage from "./storage/OverlayStorage";
+
+/**
+ * Name of the document of the properties, kept by the overlay storage.
+ */
+export const PROPERTIES_DOCUMENT = 'properties.json';
+
+const VERSION = 1;
+
+/**
+ * Time the changes are gathered for before being saved, in milliseconds.
+ */
+const SAVE_DELAY = 50;
+
+/**
+ * Dead properties and locks of a WebDAV resource.
+ */
+export interface StoredResource {
+    props: StoredPropertyManager;
+    locks: StoredLockManager;
+}
+
+/**
+ * Dead properties and locks of the WebDAV resources, keyed by WebDAV path,
+ * saved as JSON with the overlay (see `OverlayStorage.writeDocument`). As they are not attached to the
+ * overlay files, a source file shows the same properties whether or not it
+ * was copied up.
+ */
+export default class PropertyStore {
+    private resources = new Map<string, StoredResource>();
+    private saving: Promise<void> = Promise.resolve();
+    private pending?: Promise<void>;
+    private loaded: Promise<void>;
+
+    constructor(private readonly storage: OverlayStorage) {
+        this.loaded = this.load();
+        this.loaded.catch(() => undefined);
+    }
+
+    /**
+     * Loads the properties again, after their file was replaced (e.g. by a
+     * snapshot rollback).
+     */
+    public reload(): Promise<void> {
+        this.resources.clear();
+        this.loaded = this.load();
+
+        return this.loaded;
+    }
+
+    /**
+     * Gets the properties and locks of a resource, empty if there are none.
+     * An empty resource is only kept once a property or lock is set on it.
+     */
+    public async get(remotePath: string): Promise<StoredResource> {
+        await this.loaded;
+
+        const resource = this.resources.get(remotePath);
+
+        if (resource) {
+            return resource;
+        }
+
+        const created = this.createResource({}, [], () => {
+            if (!this.resources.has(remotePath)) {
+                this.resources.set(remotePath, created);
+            }
+        });
+
+        return created;
+    }
+
+    /**
+     * Moves the properties and locks of a resource and its descendants.
+     */
+    public async move(fromPath: string, toPath: string): Promise<void> {
+        await this.loaded;
+
+        this.find(fromPath).forEach(([remotePath, resource]) => {
+            this.resources.delete(remotePath);
+            this.resources.set(toPath + remotePath.substring(fromPath.length), resource);
+        });
+
+        return this.save();
+    }
+
+    /**
+     * Copies the properties of a resource and its descendants. Locks are
+     * not copied.
+     */
+    public async copy(fromPath: string, toPath: string): Promise<void> {
+        await this.loaded;
+
+        this.find(fromPath).forEach(([remotePath, resource]) => {
+            const props: PropertyBag = JSON.parse(JSON.stringify(resource.props.properties));
+
+            this.resources.set(toPath + remotePath.substring(fromPath.length), this.createResource(props, []));
+        });
+
+        return this.save();
+    }
+
+    /**
+     * Deletes the properties and locks of a resource and its descendants.
+     */
+    public async delete(remotePath: string): Promise<void> {
+        await this.loaded;
+
+        const deleted = this.find(remotePath);
+
+        deleted.forEach(([remotePath]) => this.resources.delete(remotePath));
+
+        if (deleted.length > 0) {
+            await this.save();
+        }
+    }
+
+    /**
+     * Writes the properties to their file. The saves made within a short
+     * delay, or while a write is in progress, are coalesced into one write.
+     */
+    public save(): Promise<void> {
+        if (!this.pending) {
+            const pending = this.saving.then(() => new Promise(resolve => setTimeout(resolve, SAVE_DELAY))).then(() => {
+                this.pending = undefined;
+                return this.write();
+            });
+
+            this.pending = pending;
+            this.saving = pending.catch(() => undefined);
+        }
+
+        return this.pending;
+    }
+
+    private async write(): Promise<void> {
+        const resources: { [remotePath: string]: SerializedResource } = {};
+
+        this.resources.forEach((resource, remotePath) => {
+            const locks = resource.locks.locks.filter(lock => !lock.expired()).map(serializeLock);
+
+            if (Object.keys(resource.props.properties).length > 0 || locks.length > 0) {
+                resources[remotePath] = { props: resource.props.properties, locks };
+            }
+        });
+
+        await this.storage.writeDocument(PROPERTIES_DOCUMENT, JSON.stringify({ version: VERSION, resources }));
+    }
+
+    private async load(): Promise<void> {
+        const content = await this.storage.readDocument(PROPERTIES_DOCUMENT);
+
+        if (content === undefined) {
+            return;
+        }
+
+        const data: { version: number, resources: { [remotePath: string]: SerializedResource } } = JSON.parse(content);
+
+        if (data.version !== VERSION) {
+            throw Object.assign(new Error(`Unsupported properties version: ${this.storage.location}`), { code: 'EINVAL' });
+        }
+
+        Object.keys(data.resources).forEach(remotePath => {
+            const resource = data.resources[remotePath];
+            const locks = resource.locks.map(deserializeLock).filter(lock => !lock.expired());
+
+            this.resources.set(remotePath, this.createResource(resource.props, locks));
+        });
+    }
+
+    private find(remotePath: string): [string, StoredResource][] {
+        const prefix = remotePath.endsWith('/') ? remotePath : remotePath + '/';
+
+        return Array.from(this.resources.entries())
+            .filter(([resourcePath]) => resourcePath === remotePath || resourcePath.startsWith(prefix));
+    }
+
+    /**
+     * @param keep Keeps the resource, before saving a change of it.
+     */
+    private createResource(props: PropertyBag, locks: Lock[], keep?: () => void): StoredResource {
+        const changed = () => {
+            if (keep) {
+                keep();
+            }
+
+            return this.save();
+        };
+
+        return { props: new StoredPropertyManager(changed, props), locks: new StoredLockManager(changed, locks) };
+    }
+}
+
+/**
+ * Property manager saving its store on every change.
+ */
+export class StoredPropertyManager extends LocalPropertyManager {
+    constructor(private readonly changed: () => Promise<void>, properties: PropertyBag) {
+        super();
+        this.properties = properties;
+    }
+
+    setProperty(name: string, value: ResourcePropertyValue, attributes: PropertyAttributes, callback: SimpleCallback): void {
+        super.setProperty(name, value, attributes, () => this.changed().then(() => callback(), callback));
+    }
+
+    getProperty(name: string, callback: Return2Callback<ResourcePropertyValue, PropertyAttributes>): void {
+        const property = this.properties[name];
+
+        if (property) {
+            callback(undefined, property.value, property.attributes);
+        } else {
+            callback(Errors.PropertyNotFound);
+        }
+    }
+
+    removeProperty(name: string, callback: SimpleCallback): void {
+        super.removeProperty(name, () => this.changed().then(() => callback(), callback));
+    }
+}
+
+/**
+ * Lock manager saving its store on every change.
+ */
+export class StoredLockManager extends LocalLockManager {
+    constructor(private readonly changed: () => Promise<void>, locks: Lock[]) {
+        super();
+        this.locks = locks;
+    }
+
+    setLock(lock: Lock, callback: SimpleCallback): void {
+        super.setLock(lock, () => this.changed().then(() => callback(), callback));
+    }
+
+    removeLock(uuid: string, callback: ReturnCallback<boolean>): void {
+        super.removeLock(uuid, (e, removed) => e || !removed ? callback(e, removed) : this.changed().then(() => callback(undefined, removed), callback));
+    }
+
+    refresh(uuid: string, timeoutSeconds: number, callback: ReturnCallback<Lock>): void {
+        super.refresh(uuid, timeoutSeconds, (e, lock) => e || !lock ? callback(e, lock) : this.changed().then(() => callback(undefined, lock), callback));
+    }
+}
+
+type SerializedResource = { props: PropertyBag, locks: SerializedLock[] };
+
+type SerializedLock = {
+    scope: string,
+    type: string,
+    timeout: number,
+    expirationDate: number,
+    owner: any,
+    depth: number,
+    uuid: string,
+    userUid: string
+};
+
+function serializeLock(lock: Lock): SerializedLock {
+    return {
+        scope: lock.lockKind.scope.value,
+        type: lock.lockKind.type.value,
+        timeout: lock.lockKind.timeout,
+        expirationDate: lock.expirationDate,
+        owner: lock.owner,
+        depth: lock.depth,
+        uuid: lock.uuid,
+        userUid: lock.userUid
+    };
+}
+
+function deserializeLock(data: SerializedLock): Lock {
+    const lock = new Lock(new LockKind(new LockScope(data.scope), new LockType(data.type), data.timeout), data.userUid, data.owner, data.depth);
+
+    lock.uuid = data.uuid;
+    lock.expirationDate = data.expirationDate;
+
+    return lock;
+}
@@ -0,0 +1,102 @@
+import { RequestErrorEvent } from "./PreservingMirrorServer";
+
+/**
+ * Durations of requests, in milliseconds. The percentiles are those of the
+ * latest requests.
+ */
+export interface LatencyStats {
+    count: number;
+    mean: number;
+    p50: number;
+    p95: number;
+    p99: number;
+    max: number;
+}
+
+/**
+ * An error of the server, with the failed request if any.
+ */
+export interface ErrorRecord extends Partial<RequestErrorEvent> {
+    time: string;
+    message: string;
+}
+
+/**
+ * Latest requests kept for the percentiles, of all methods and of each one.
+ */
+const SAMPLES = 1000;
+const ERRORS = 50;
+
+/**
+ * Statistics of the requests answered by a server, and its latest errors,
+ * as reported by the admin API (see `AdminApi`).
+ */
+export default class ServerStats {
+    public readonly started = new Date();
+    private readonly all = new Latencies();
+    private readonly methods = new Map<string, Latencies>();
+    private readonly errors: ErrorRecord[] = [];
+
+    public recordRequest(method: string, duration: number) {
+        let latencies = this.methods.get(method);
+
+        if (!latencies) {
+            latencies = new Latencies();
+            this.methods.set(method, latencies);
+        }
+
+        latencies.add(duration);
+        this.all.add(duration);
+    }
+
+    public recordError(err: Error, event?: RequestErrorEvent) {
+        this.errors.push({ time: new Date().toISOString(), message: err.message, ...event });
+        this.errors.splice(0, this.errors.length - ERRORS);
+    }
+
+    /**
+     * Latency of all the requests, and of those of each method.
+     */
+    public get latency(): LatencyStats & { methods: { [method: string]: LatencyStats } } {
+        const methods: { [method: string]: LatencyStats } = {};
+
+        this.methods.forEach((latencies, method) => methods[method] = latencies.summarize());
+
+        return { ...this.all.summarize(), methods };
+    }
+
+    /**
+     * Latest errors, the oldest first.
+     */
+    public get recentErrors(): ErrorRecord[] {
+        return this.errors.slice();
+    }
+}
+
+class Latencies {
+    private count = 0;
+    private total = 0;
+    private max = 0;
+    private readonly samples: number[] = [];
+
+    public add(duration: number) {
+        this.samples[this.count % SAMPLES] = duration;
+        this.count++;
+        this.total += duration;
+        this.max = Math.max(this.max, duration);
+    }
+
+    public summarize(): LatencyStats {
+        const sorted = this.samples.slice().sort((a, b) => a - b);
+        const percentile = (p: number) => sorted.length > 0 ? sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))] : 0;
+
+        return {
+            count: this.count,
+            mean: this.count > 0 ? this.total / this.count : 0,
+            p50: percentile(0.5),
+            p95: percentile(0.95),
+            p99: percentile(0.99),
+            max: this.max
+        };
+    }
+}
@@ -0,0 +1,317 @@
+import { stat, lstat, mkdir, readdir, readFile, writeFile, copyFile, rename, unlink, createReadStream, Stats } from "fs";
+import * as path from "path";
+import { promisify } from "util";
+import MirrorRepository, { Change } from "./MirrorRepository";
+import Journal from "./Journal";
+import DeltaFile, { DELTAS_DIR } from "./DeltaFile";
+import DirectoryStorage, { OPAQUE_MARKER } from "./storage/DirectoryStorage";
+import { PROPERTIES_DOCUMENT } from "./PropertyStore";
+import { linkTree, mkDirByPath, removeTree, sameContent, sameStreams } from "./files";
+import { SourceStats } from "./sources/Source";
+
+const statAsync = promisify(stat), lstatAsync = promisify(lstat), mkdirAsync = promisify(mkdir), readdirAsync = promisify(readdir);
+const readFileAsync = promisify(readFile), writeFileAsync = promisify(writeFile), copyFileAsync = promisify(copyFile);
+const renameAsync = promisify(rename), unlinkAsync = promisify(unlink);
+
+export interface SnapshotInfo {
+    name: string;
+    created: string;
+}
+
+/**
+ * State of an overlay: its files, its opaque directories, and the paths
+ * its journal last recorded as deleted or moved away.
+ */
+interface OverlayState {
+    files: Map<string, Version>;
+    opaque: Set<string>;
+    deleted: Set<string>;
+}
+
+/**
+ * Version of a file seen through an overlay state: a local version, as a
+ * file or a delta file, or the source version (without either).
+ */
+type Version = { path?: string, delta?: DeltaFile, stats: SourceStats };
+
+/**
+ * Named checkpoints of the overlay state (the overlay directory, the
+ * journal and the WebDAV properties), kept under `<changes>/snapshots/<name>`.
+ * Snapshots taken before the journal have a `deleted` file instead.
+ *
+ * Snapshot files are hard links to the overlay files, so unchanged files
+ * take no extra space. The storage replaces a file or detaches its hard
+ * link before writing it (see `DirectoryStorage.createWriteStream`).
+ * Overlays kept elsewhere than in a changes directory have no snapshots.
+ */
+export default class SnapshotStore {
+    constructor(private readonly repository: MirrorRepository) {
+    }
+
+    private get storage(): DirectoryStorage {
+        if (!(this.repository.storage instanceof DirectoryStorage)) {
+            throw Object.assign(new Error(`Snapshots need a changes directory: ${this.repository.localPathMapping}`), { code: 'ENOTSUP' });
+        }
+
+        return this.repository.storage;
+    }
+
+    public async list(): Promise<SnapshotInfo[]> {
+        let names: string[];
+
+        try {
+            names = await readdirAsync(this.getSnapshotsPath());
+        } catch (err) {
+            if (err.code === 'ENOENT') {
+                return [];
+            }
+
+            throw err;
+        }
+
+        const snapshots = await Promise.all(names.map(async name => JSON.parse((await readFileAsync(this.getSnapshotPath(name, 'snapshot.json'))).toString()) as SnapshotInfo));
+
+        return snapshots.sort((a, b) => a.created < b.created ? -1 : a.created > b.created ? 1 : 0);
+    }
+
+    public async create(name: string): Promise<SnapshotInfo> {
+        const info: SnapshotInfo = { name, created: new Date().toISOString() };
+
+        await mkDirByPath(this.getSnapshotsPath());
+        await mkdirAsync(this.getSnapshotPath(name));
+        await linkTree(this.storage.overlayPath, this.getSnapshotPath(name, 'mirror'));
+        await copyFileAsync(this.storage.journalPath, this.getSnapshotPath(name, 'journal'));
+
+        await copyFileAsync(this.storage.getDocumentPath(PROPERTIES_DOCUMENT), this.getSnapshotPath(name, PROPERTIES_DOCUMENT)).catch(err => {
+            if (err.code !== 'ENOENT') {
+                throw err;
+            }
+        });
+        await writeFileAsync(this.getSnapshotPath(name, 'snapshot.json'), JSON.stringify(info));
+
+        return info;
+    }
+
+    public async delete(name: string): Promise<void> {
+        await statAsync(this.getSnapshotPath(name));
+        await removeTree(this.getSnapshotPath(name));
+    }
+
+    /**
+     * Replaces the live overlay by the one of a snapshot, while serving
+     * requests. The switch is made as a rewrite of the journal, with the
+     * records of the snapshot, so that no record is appended meanwhile.
+     */
+    public async rollback(name: string): Promise<void> {
+        const overlayPath = this.storage.overlayPath.replace(/[\\/]+$/, '');
+        const propertiesPath = this.storage.getDocumentPath(PROPERTIES_DOCUMENT);
+        const snapshotJournalPath = await this.getJournalPath(name);
+
+        await statAsync(this.getSnapshotPath(name, 'snapshot.json'));
+        await removeTree(`${overlayPath}.rollback`);
+        await removeTree(`${overlayPath}.old`);
+        await linkTree(this.getSnapshotPath(name, 'mirror'), `${overlayPath}.rollback`);
+
+        const hasProperties = await copyFileAsync(this.getSnapshotPath(name, PROPERTIES_DOCUMENT), `${propertiesPath}.rollback`).then(() => true, err => {
+            if (err.code !== 'ENOENT') {
+                throw err;
+            }
+
+            return false;
+        });
+
+        await this.storage.rewriteJournal(async () => {
+            await renameAsync(overlayPath, `${overlayPath}.old`);
+            await renameAsync(`${overlayPath}.rollback`, overlayPath);
+
+            if (hasProperties) {
+                await renameAsync(`${propertiesPath}.rollback`, propertiesPath);
+            } else {
+                await unlinkAsync(propertiesPath).catch(err => {
+                    if (err.code !== 'ENOENT') {
+                        throw err;
+                    }
+                });
+            }
+
+            return Journal.read(snapshotJournalPath);
+        });
+
+        // Requests wait for the index to be rebuilt.
+        await this.repository.reload();
+
+        await removeTree(`${overlayPath}.old`);
+    }
+
+    /**
+     * Compares the view of the mirror on two snapshots.
+     *
+     * @param from Name of the older snapshot.
+     * @param to Name of the newer snapshot, or undefined for the live overlay.
+     */
+    public async compare(from: string, to?: string): Promise<Change[]> {
+        const [a, b] = await Promise.all([
+            this.readState(this.getSnapshotPath(from, 'mirror'), await this.getJournalPath(from)),
+            to === undefined
+                ? this.readState(this.storage.overlayPath, this.storage.journalPath)
+                : this.readState(this.getSnapshotPath(to, 'mirror'), await this.getJournalPath(to))
+        ]);
+        const paths = new Set<string>([...a.files.keys(), ...b.files.keys(), ...a.deleted, ...b.deleted]);
+
+        // The source children an opaque directory hides.
+        for (const opaque of Array.from(new Set<string>([...a.opaque, ...b.opaque]))) {
+            const files = await this.repository.source.readDir(opaque).catch(() => [] as string[]);
+
+            files.forEach(file => paths.add(opaque === '/' ? `/${file}` : `${opaque}/${file}`));
+        }
+
+        const changes: Change[] = [];
+        const deleted = new Set<string>();
+
+        for (const remotePath of Array.from(paths).sort()) {
+            if (deleted.has(path.posix.dirname(remotePath))) {
+                // Already reported by its deleted parent.
+                deleted.add(remotePath);
+                continue;
+            }
+
+            const [before, after] = await Promise.all([this.resolve(a, remotePath), this.resolve(b, remotePath)]);
+
+            if (!before && !after) {
+                continue;
+            } else if (!after) {
+                deleted.add(remotePath);
+                changes.push({ path: remotePath, type: 'deleted', directory: before!.stats.isDirectory() });
+            } else if (!before) {
+                changes.push({ path: remotePath, type: 'added', directory: after.stats.isDirectory() });
+            } else if (before.stats.isDirectory() !== after.stats.isDirectory()
+                || (!after.stats.isDirectory() && !await this.sameVersion(remotePath, before, after))) {
+                changes.push({ path: remotePath, type: 'modified', directory: after.stats.isDirectory() });
+            }
+        }
+
+        return changes;
+    }
+
+    /**
+     * Resolves the file seen at a path, for a given overlay state: its local
+     * version, or the source version unless the path or an ancestor was
+     * deleted, or an ancestor is a local file or an opaque directory.
+     */
+    private async resolve(state: OverlayState, remotePath: string): Promise<Version | undefined> {
+        const file = state.files.get(remotePath);
+
+        if (file) {
+            return file;
+        }
+
+        for (let ancestor = remotePath; ; ancestor = path.posix.dirname(ancestor)) {
+            const local = ancestor !== remotePath && state.files.get(ancestor);
+
+            if (local ? !local.stats.isDirectory() || state.opaque.has(ancestor) : state.deleted.has(ancestor)) {
+                return undefined;
+            } else if (ancestor === '/') {
+                break;
+            }
+        }
+
+        return this.repository.source.stat(remotePath).then(stats => ({ stats }), err => {
+            if (err.code === 'ENOENT' || err.code === 'ENOTDIR') {
+                return undefined;
+            }
+
+            throw err;
+        });
+    }
+
+    /**
+     * Compares the content of two versions of a file.
+     */
+    private async sameVersion(remotePath: string, a: Version, b: Version): Promise<boolean> {
+        if (a.stats.size !== b.stats.size) {
+            return false;
+        } else if (a.path && b.path) {
+            return sameFile(a.stats as Stats, b.stats as Stats) || sameContent(a.path, b.path, a.stats, b.stats);
+        } else if (!a.path && !b.path && !a.delta && !b.delta) {
+            return true;
+        }
+
+        const open = (version: Version) => version.delta ? version.delta.createReadStream(this.repository.source)
+            : version.path ? createReadStream(version.path) : this.repository.source.createReadStream(remotePath);
+
+        return sameStreams(await open(a), await open(b));
+    }
+
+    private async readState(overlayPath: string, journalPath: string): Promise<OverlayState> {
+        const files = new Map<string, Version>();
+        const opaque = new Set<string>();
+        const walk = async (remotePath: string, localPath: string) => {
+            for (const file of await readdirAsync(localPath)) {
+                if (file === OPAQUE_MARKER) {
+                    opaque.add(remotePath);
+                    continue;
+                } else if (file === DELTAS_DIR) {
+                    for (const name of await readdirAsync(path.join(localPath, file))) {
+                        const delta = await DeltaFile.read(path.join(localPath, file, name));
+
+                        files.set(remotePath === '/' ? `/${name}` : `${remotePath}/${name}`, { delta, stats: delta.stats });
+                    }
+
+                    continue;
+                }
+
+                const child = { path: path.join(localPath, file), stats: await lstatAsync(path.join(localPath, file)) };
+                const childRemotePath = remotePath === '/' ? `/${file}` : `${remotePath}/${file}`;
+
+                files.set(childRemotePath, child);
+
+                if (child.stats.isDirectory()) {
+                    await walk(childRemotePath, child.path);
+                }
+            }
+        };
+
+        await walk('/', overlayPath);
+
+        const deleted = new Set<string>();
+
+        // Replayed in order: a path stays deleted until created again.
+        (await Journal.read(journalPath)).forEach(record => {
+            if (record.op === 'delete') {
+                deleted.add(record.path);
+                return;
+            } else if (record.from) {
+                deleted.add(record.from);
+            }
+
+            deleted.delete(record.path);
+        });
+
+        return { files, opaque, deleted };
+    }
+
+    private async getJournalPath(name: string): Promise<string> {
+        const journalPath = this.getSnapshotPath(name, 'journal');
+
+        return await statAsync(journalPath).then(() => true, () => false) ? journalPath : this.getSnapshotPath(name, 'deleted');
+    }
+
+    private getSnapshotsPath(): string {
+        return path.join(this.storage.root, 'snapshots');
+    }
+
+    private getSnapshotPath(name: string, ...file: string[]): string {
+        if (!/^[\w-][\w.-]*$/.test(name)) {
+            throw Object.assign(new Error(`Invalid snapshot name: ${name}`), { code: 'EINVAL' });
+        }
+
+        return path.join(this.getSnapshotsPath(), name, ...file);
+    }
+}
+
+/**
+ * Checks whether both stats are of the same file (e.g. hard links).
+ */
+function sameFile(a: Stats, b: Stats): boolean {
+    return a.dev === b.dev && a.ino === b.ino;
+}
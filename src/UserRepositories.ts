@@ -0,0 +1,92 @@
+import * as path from "path";
+import { EventEmitter } from "events";
+import MirrorRepository, { Quota } from "./MirrorRepository";
+import Source from "./sources/Source";
+import LayeredSource from "./sources/LayeredSource";
+import { openSource } from "./sources";
+
+/**
+ * Checks whether a user name may name a changes directory.
+ */
+export function isValidUserName(username: string): boolean {
+    return /^[\w][\w.@-]*$/.test(username);
+}
+
+/**
+ * Repositories of the users of a mirror, each with its own changes
+ * directory (`<changes>/users/<username>`) and quota over a single shared
+ * source.
+ * Requests without a user, made by the server itself, see the overlay at
+ * `<changes>/anonymous`.
+ *
+ * Emits `copy-up-start` and `record` as any of them does (see
+ * `MirrorRepository`).
+ */
+export default class UserRepositories extends EventEmitter {
+    public readonly source: Source;
+
+    /**
+     * Repositories opened, by user name (undefined for the anonymous user).
+     */
+    private readonly repositories = new Map<string | undefined, MirrorRepository>();
+
+    /**
+     * @param deltaThreshold Size from which files are copied up as delta
+     * files (see `MirrorRepository.deltaThreshold`).
+     * @param caseInsensitive Whether paths may be given in any case (see
+     * `MirrorRepository.caseInsensitive`).
+     */
+    constructor(public readonly remotePathMappings: string[], public readonly localPathMapping: string, public readonly quota: Quota = {}, public readonly deltaThreshold?: number, public readonly caseInsensitive = false) {
+        super();
+        this.source = new LayeredSource(remotePathMappings.map(openSource));
+    }
+
+    /**
+     * Gets the repository of a user, opening it on first use.
+     */
+    public get(username?: string): MirrorRepository {
+        if (username !== undefined && !isValidUserName(username)) {
+            throw Object.assign(new Error(`Invalid user name: ${username}`), { code: 'EINVAL' });
+        }
+
+        let repository = this.repositories.get(username);
+
+        if (!repository) {
+            const localPath = username === undefined
+                ? path.join(this.localPathMapping, 'anonymous')
+                : path.join(this.localPathMapping, 'users', username);
+
+            repository = new MirrorRepository(this.remotePathMappings, localPath, path.sep, this.source);
+            repository.quota = this.quota;
+            repository.deltaThreshold = this.deltaThreshold;
+            repository.caseInsensitive = this.caseInsensitive;
+            repository.on('copy-up-start', (remotePath, user) => this.emit('copy-up-start', remotePath, user));
+            repository.on('record', record => this.emit('record', record));
+            this.repositories.set(username, repository);
+        }
+
+        return repository;
+    }
+
+    /**
+     * Resolves once the repositories opened are loaded (see
+     * `MirrorRepository.ready`).
+     */
+    public async ready(): Promise<void> {
+        await Promise.all(Array.from(this.repositories.values()).map(repository => repository.ready()));
+    }
+
+    /**
+     * Lists the repositories opened, by user name.
+     */
+    public get opened(): Map<string | undefined, MirrorRepository> {
+        return new Map(this.repositories);
+    }
+
+    /**
+     * Closes the opened repositories, saving their index.
+     */
+    public async close(): Promise<void> {
+        await Promise.all(Array.from(this.repositories.values()).map(repository => repository.close()));
+    }
+}
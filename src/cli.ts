@@ -0,0 +1,42 @@
+import process from 'process';
+import * as path from 'path';
+import commands from './commands';
+import { parseArguments, closeRepositories, UsageError } from './commands/arguments';
+
+// Without a command, the mirror is served.
+const explicit = commands.hasOwnProperty(process.argv[2]);
+const command = explicit ? commands[process.argv[2]] : commands.serve;
+
+if (command !== commands.serve) {
+    // Keep stdout clean for the command output.
+    console.info = console.error;
+}
+
+if (process.argv.length < 3) {
+    printSyntax();
+    process.exit(-1);
+} else {
+    command(parseArguments(process.argv.slice(explicit ? 3 : 2)))
+        .then(code => closeRepositories().then(() => code))
+        .then(code => process.exit(code), err => {
+            console.error(err instanceof UsageError ? err.message : err);
+            printSyntax();
+            process.exit(-1);
+        });
+}
+
+function printSyntax() {
+    console.error('Syntax: wpm <source directory> <changes repository directory path>');
+    console.error(`        (source directory may also be a .zip, .tar, .tar.gz or .tgz archive, or a list of read-only layers, topmost first, separated by '${path.delimiter}')`);
+    console.error('        (changes repository directory path may be memory: to keep the changes in memory until the server stops)');
+    console.error('        wpm serve [<source directory> <changes repository directory path>] [--config=<file.json|file.yaml>] [--host=<host>] [--port=<port>] [--cert=<file> --key=<file> [--ca=<file>]] [--mount=<prefix>,<source directory>,<changes repository directory path>...] [--users=<file.json|file.yaml> [--auth=basic|digest] [--realm=<realm>] [--shared]] [--policy=<file.json|file.yaml>] [--quota-bytes=<size>] [--quota-files=<count>] [--delta-threshold=<size>] [--case-insensitive] [--audit-log=<file>|-] [--audit-level=off|error|info|debug] [--audit-max-size=<size>] [--audit-max-files=<count>] [--admin-token=<token>]');
+    console.error('        wpm status <source directory> <changes repository directory path> [--json] [--policy=<file.json|file.yaml>]');
+    console.error('        wpm diff <source directory> <changes repository directory path> [path...] [--json] [--policy=<file.json|file.yaml>]');
+    console.error('        wpm apply <source directory> <changes repository directory path> <target directory> [--dry-run] [--force] [--include=glob...] [--exclude=glob...] [--policy=<file.json|file.yaml>]');
+    console.error('        wpm revert <source directory> <changes repository directory path> <path...>');
+    console.error('        wpm snapshot <source directory> <changes repository directory path> list|create|diff|rollback|delete [name...]');
+    console.error('        wpm compact <source directory> <changes repository directory path>');
+    console.error('        wpm conflicts <source directory> <changes repository directory path> [--json]');
+    console.error('        wpm export <source directory> <changes repository directory path> <bundle.tar|bundle.tar.gz> [path...] [--policy=<file.json|file.yaml>]');
+    console.error('        wpm import <source directory> <changes repository directory path> <bundle.tar|bundle.tar.gz> [--dry-run] [--force]');
+}
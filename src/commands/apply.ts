@@ -0,0 +1,194 @@
+import { lstat, unlink, Stats } from "fs";
+import * as path from "path";
+import { promisify } from "util";
+import { Arguments, openRepository, openPolicy, hasOption, UsageError } from "./arguments";
+import { codes } from "./status";
+import MirrorRepository, { Change } from "../MirrorRepository";
+import { compileGlob, matchesAny } from "../glob";
+import { hashStream, mkDirByPath, removeTree, sameStreams, writeStream } from "../files";
+import { SourceVersion } from "../Journal";
+import Source, { SourceStats } from "../sources/Source";
+import DirectorySource from "../sources/DirectorySource";
+
+const lstatAsync = promisify(lstat), unlinkAsync = promisify(unlink);
+
+/**
+ * Read access to a tree of files: the source, the mirror or the target.
+ */
+type Tree = Pick<Source, 'stat' | 'readDir' | 'createReadStream'>;
+
+/**
+ * wpm apply <source> <changes> <target> [--dry-run] [--force] [--include=glob...] [--exclude=glob...] [--policy=<file>]
+ *
+ * Replays the overlay changes onto a target directory, that may be the
+ * source itself or a copy of it. The source is taken as the common base,
+ * or the version copied up for the files whose source changed since (see
+ * `wpm conflicts`): a target path that differs both from the base and from
+ * the overlay was changed after the copy-up, and is reported as a conflict. Nothing
+ * is applied while there are conflicts, unless forced. Paths ignored by the
+ * policy are never applied.
+ */
+export default async function apply(args: Arguments): Promise<number> {
+    const repository = openRepository(args);
+    const target = args.positional[0];
+
+    if (!target) {
+        throw new UsageError('Missing <target directory>.');
+    }
+
+    const includes = (args.options.include || []).map(compileGlob);
+    const excludes = (args.options.exclude || []).map(compileGlob);
+    const policy = openPolicy(args);
+    const changes = (await repository.changes())
+        .filter(change => !policy.isIgnored(change.path))
+        .filter(change => (includes.length === 0 || matchesAny(change.path, includes)) && !matchesAny(change.path, excludes));
+    const dryRun = hasOption(args, 'dry-run'), force = hasOption(args, 'force');
+    const targetTree = new DirectorySource(target);
+    const bases = new Map((await repository.conflicts()).map(conflict => [conflict.path, conflict.base] as [string, SourceVersion]));
+    let conflicts = 0;
+
+    for (const change of changes) {
+        const conflict = await hasConflict(repository, change, targetTree, bases.get(change.path));
+
+        if (conflict) {
+            conflicts++;
+        }
+
+        const line = `${codes[change.type]} ${change.directory ? change.path + '/' : change.path}`;
+
+        console.log(conflict ? `${line} (conflict: changed on target)` : line);
+    }
+
+    if (conflicts > 0 && !force) {
+        console.error(`${conflicts} conflicting path(s): nothing applied. Use --force to overwrite them.`);
+        return 1;
+    }
+
+    if (dryRun) {
+        return 0;
+    }
+
+    // Deletions first, so that a path replaced by another type can be recreated.
+    const ordered = changes.filter(change => change.type === 'deleted').reverse()
+        .concat(changes.filter(change => change.type !== 'deleted'));
+
+    for (const change of ordered) {
+        await applyChange(repository, change, resolveTarget(target, change.path));
+    }
+
+    console.info(`Applied ${changes.length} change(s) onto ${target}.`);
+
+    return 0;
+}
+
+function resolveTarget(target: string, remotePath: string): string {
+    return path.join(target, ...remotePath.split('/'));
+}
+
+async function applyChange(repository: MirrorRepository, change: Change, targetPath: string): Promise<void> {
+    const targetStats = await lstatOrUndefined(targetPath);
+
+    if (change.type === 'deleted') {
+        await removeTree(targetPath);
+    } else if (change.directory) {
+        if (targetStats && !targetStats.isDirectory()) {
+            await unlinkAsync(targetPath);
+        }
+
+        await mkDirByPath(targetPath);
+    } else {
+        if (targetStats && targetStats.isDirectory()) {
+            await removeTree(targetPath);
+        }
+
+        await mkDirByPath(path.dirname(targetPath));
+        await writeStream(await repository.createReadStream(change.path), targetPath);
+    }
+}
+
+/**
+ * Checks whether the target path is neither as on the source (the base of
+ * the change) nor as on the overlay (change already applied).
+ *
+ * @param base Version copied up, when the source changed since.
+ */
+async function hasConflict(repository: MirrorRepository, change: Change, target: Tree, base?: SourceVersion): Promise<boolean> {
+    const targetStats = await statOrUndefined(target, change.path);
+
+    if (!targetStats) {
+        return change.type === 'modified';
+    }
+
+    switch (change.type) {
+        case 'deleted':
+            return !await sameTree(repository.source, target, change.path);
+
+        case 'added':
+            return change.directory ? !targetStats.isDirectory() : !await sameTree(repository, target, change.path);
+
+        default:
+            return !(base ? await sameVersion(target, change.path, targetStats, base) : await sameTree(repository.source, target, change.path))
+                && (change.directory ? !targetStats.isDirectory() : !await sameTree(repository, target, change.path));
+    }
+}
+
+/**
+ * Compares a file or directory tree, by content, on two trees.
+ */
+async function sameTree(a: Tree, b: Tree, remotePath: string): Promise<boolean> {
+    const [statsA, statsB] = await Promise.all([statOrUndefined(a, remotePath), statOrUndefined(b, remotePath)]);
+
+    if (!statsA || !statsB || statsA.isDirectory() !== statsB.isDirectory()) {
+        return !statsA && !statsB;
+    } else if (!statsA.isDirectory()) {
+        return statsA.size === statsB.size && sameStreams(await a.createReadStream(remotePath), await b.createReadStream(remotePath));
+    }
+
+    const [filesA, filesB] = await Promise.all([a.readDir(remotePath), b.readDir(remotePath)]);
+
+    if (filesA.length !== filesB.length || filesA.some(file => filesB.indexOf(file) < 0)) {
+        return false;
+    }
+
+    for (const file of filesA) {
+        if (!await sameTree(a, b, remotePath === '/' ? `/${file}` : `${remotePath}/${file}`)) {
+            return false;
+        }
+    }
+
+    return true;
+}
+
+/**
+ * Compares a file on a tree with a source version, by size and hash, or by
+ * modification time when it was not hashed.
+ */
+async function sameVersion(tree: Tree, remotePath: string, stats: SourceStats, version: SourceVersion): Promise<boolean> {
+    if (!stats.isFile() || stats.size !== version.size) {
+        return false;
+    } else if (!version.sha256) {
+        return stats.mtime.toISOString() === version.mtime;
+    }
+
+    return await hashStream(await tree.createReadStream(remotePath)) === version.sha256;
+}
+
+function statOrUndefined(tree: Tree, remotePath: string): Promise<SourceStats | undefined> {
+    return tree.stat(remotePath).catch(err => {
+        if (err.code === 'ENOENT' || err.code === 'ENOTDIR') {
+            return undefined;
+        }
+
+        throw err;
+    });
+}
+
+function lstatOrUndefined(targetPath: string): Promise<Stats | undefined> {
+    return lstatAsync(targetPath).catch(err => {
+        if (err.code === 'ENOENT') {
+            return undefined;
+        }
+
+        throw err;
+    });
+}
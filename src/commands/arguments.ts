@@ -0,0 +1,97 @@
+import * as path from "path";
+import MirrorRepository from "../MirrorRepository";
+import PathPolicy from "../PathPolicy";
+import { readPolicy } from "../config";
+
+/**
+ * Command line arguments, split into positional arguments and options.
+ * Options are written as `--name` (a flag) or `--name=value`, and may
+ * be repeated.
+ */
+export interface Arguments {
+    positional: string[];
+    options: { [name: string]: string[] };
+}
+
+export function parseArguments(args: string[]): Arguments {
+    const result: Arguments = { positional: [], options: {} };
+
+    for (const arg of args) {
+        const match = /^--([^=]+)(?:=(.*))?$/.exec(arg);
+
+        if (match) {
+            const values = result.options[match[1]] = result.options[match[1]] || [];
+
+            if (match[2] !== undefined) {
+                values.push(match[2]);
+            }
+        } else {
+            result.positional.push(arg);
+        }
+    }
+
+    return result;
+}
+
+export function hasOption(args: Arguments, name: string): boolean {
+    return args.options.hasOwnProperty(name);
+}
+
+/**
+ * Gets the last value given to an option.
+ */
+export function getOption(args: Arguments, name: string): string | undefined {
+    const values = args.options[name];
+
+    return values && values.length > 0 ? values[values.length - 1] : undefined;
+}
+
+/**
+ * Repositories opened by the command, closed after it (see `closeRepositories`).
+ */
+const opened: MirrorRepository[] = [];
+
+/**
+ * Opens the repository named by the first two positional arguments,
+ * removing them from the list. The source may list several directories
+ * (lower layers), topmost first, separated as in `PATH`.
+ */
+export function openRepository(args: Arguments): MirrorRepository {
+    if (args.positional.length < 2) {
+        throw new UsageError('Missing <source directory> and <changes repository directory path>.');
+    }
+
+    const [mirrorPath, changesPath] = args.positional.splice(0, 2);
+
+    const repository = new MirrorRepository(mirrorPath.split(path.delimiter), changesPath);
+
+    opened.push(repository);
+
+    return repository;
+}
+
+/**
+ * Closes the repositories opened by the command, saving their index for
+ * the next command or server to load it.
+ */
+export async function closeRepositories(): Promise<void> {
+    for (const repository of opened.splice(0)) {
+        await repository.close();
+    }
+}
+
+/**
+ * Reads the path policy given by `--policy=<file>`, if any. Its ignored
+ * paths are left out of the changes.
+ */
+export function openPolicy(args: Arguments): PathPolicy {
+    const policyPath = getOption(args, 'policy');
+
+    return new PathPolicy(policyPath ? readPolicy(policyPath) : {});
+}
+
+/**
+ * Error on the command line, reported along with the command syntax.
+ */
+export class UsageError extends Error {
+}
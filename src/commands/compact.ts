@@ -0,0 +1,16 @@
+import { Arguments, openRepository } from "./arguments";
+
+/**
+ * wpm compact <source> <changes>
+ *
+ * Compacts the journal of the changes. The journal is also compacted when
+ * the changes are opened; a running server compacts it on a
+ * `POST /.wpm/compact` request (see `AdminApi`).
+ */
+export default async function compact(args: Arguments): Promise<number> {
+    const repository = openRepository(args);
+
+    console.log(`Journal compacted to ${await repository.compact()} records.`);
+
+    return 0;
+}
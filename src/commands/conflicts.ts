@@ -0,0 +1,28 @@
+import { Arguments, openRepository, hasOption } from "./arguments";
+import { Drift } from "../MirrorRepository";
+
+const codes: { [drift in Drift]: string } = {
+    modified: 'M',
+    deleted: 'D'
+};
+
+/**
+ * wpm conflicts <source> <changes> [--json]
+ *
+ * Lists the local files whose source was modified or deleted since their
+ * copy-up, so that the local version shadows a newer original. Exits with
+ * 1 when there are conflicts.
+ */
+export default async function conflicts(args: Arguments): Promise<number> {
+    const repository = openRepository(args);
+    const conflicts = await repository.conflicts();
+
+    if (hasOption(args, 'json')) {
+        console.log(JSON.stringify(conflicts, null, 2));
+    } else {
+        conflicts.forEach(conflict => console.log(codes[conflict.drift],
+            conflict.path + (conflict.base.path !== conflict.path ? ` (copied from ${conflict.base.path})` : '')));
+    }
+
+    return conflicts.length > 0 ? 1 : 0;
+}
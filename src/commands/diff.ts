@@ -0,0 +1,71 @@
+import { Arguments, openRepository, openPolicy, hasOption } from "./arguments";
+import { Change } from "../MirrorRepository";
+import unifiedDiff from "../unifiedDiff";
+import { readStream } from "../files";
+
+interface ChangeDiff extends Change {
+    binary?: boolean;
+    diff?: string;
+}
+
+/**
+ * wpm diff <source> <changes> [path...] [--json] [--policy=<file>]
+ *
+ * Prints unified diffs of the files changed on the overlay, but the ignored
+ * ones, optionally restricted to the given paths and their descendants.
+ */
+export default async function diff(args: Arguments): Promise<number> {
+    const repository = openRepository(args);
+    const policy = openPolicy(args);
+    const filter = args.positional.map(p => p.replace(/\/+$/, ''));
+    const changes = (await repository.changes())
+        .filter(change => !policy.isIgnored(change.path))
+        .filter(change => filter.length === 0 || filter.some(p => change.path === p || change.path.startsWith(p + '/')));
+    const diffs: ChangeDiff[] = [];
+
+    for (const change of changes) {
+        if (change.directory) {
+            diffs.push(change);
+            continue;
+        }
+
+        const [before, after] = await Promise.all([
+            change.type !== 'added' ? repository.source.createReadStream(change.path).then(readStream) : Buffer.alloc(0),
+            change.type !== 'deleted' ? repository.createReadStream(change.path).then(readStream) : Buffer.alloc(0)
+        ]);
+
+        if (isBinary(before) || isBinary(after)) {
+            diffs.push({ ...change, binary: true });
+        } else {
+            diffs.push({
+                ...change,
+                diff: unifiedDiff(before.toString(), after.toString(),
+                    change.type === 'added' ? '/dev/null' : `a${change.path}`,
+                    change.type === 'deleted' ? '/dev/null' : `b${change.path}`)
+            });
+        }
+    }
+
+    if (hasOption(args, 'json')) {
+        console.log(JSON.stringify(diffs, null, 2));
+    } else {
+        diffs.forEach(change => {
+            if (change.directory) {
+                console.log(`Only in ${change.type === 'deleted' ? 'source' : 'overlay'}: ${change.path}/`);
+            } else if (change.binary) {
+                console.log(`Binary files a${change.path} and b${change.path} differ`);
+            } else {
+                process.stdout.write(change.diff!);
+            }
+        });
+    }
+
+    return 0;
+}
+
+/**
+ * Same heuristic as git: a NUL byte in the first 8000 bytes means binary content.
+ */
+function isBinary(content: Buffer): boolean {
+    return content.slice(0, 8000).indexOf(0) >= 0;
+}
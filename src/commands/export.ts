@@ -0,0 +1,32 @@
+import { Arguments, openRepository, openPolicy, UsageError } from "./arguments";
+import { codes } from "./status";
+import ChangeBundle from "../ChangeBundle";
+
+/**
+ * wpm export <source> <changes> <bundle> [path...] [--policy=<file>]
+ *
+ * Packages the overlay changes, but the ignored ones, into a bundle to be
+ * imported elsewhere (see `ChangeBundle`), optionally restricted to the
+ * given paths and their descendants. The bundle is a tar archive, gzipped
+ * when named `.tar.gz` or `.tgz`.
+ */
+export default async function exportChanges(args: Arguments): Promise<number> {
+    const repository = openRepository(args);
+    const [bundlePath, ...paths] = args.positional;
+
+    if (!bundlePath) {
+        throw new UsageError('Missing <bundle> file.');
+    }
+
+    const policy = openPolicy(args);
+    const filter = paths.map(p => p.replace(/\/+$/, ''));
+    const changes = (await repository.changes())
+        .filter(change => !policy.isIgnored(change.path))
+        .filter(change => filter.length === 0 || filter.some(p => change.path === p || change.path.startsWith(p + '/')));
+    const manifest = await new ChangeBundle(bundlePath).export(repository, changes);
+
+    manifest.changes.forEach(change => console.log(codes[change.type], change.directory ? change.path + '/' : change.path));
+    console.info(`Exported ${manifest.changes.length} change(s) to ${bundlePath}.`);
+
+    return 0;
+}
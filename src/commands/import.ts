@@ -0,0 +1,55 @@
+import { Arguments, openRepository, hasOption, UsageError } from "./arguments";
+import { codes } from "./status";
+import ChangeBundle, { BundleConflict } from "../ChangeBundle";
+
+const reasons: { [conflict in BundleConflict]: string } = {
+    source: 'source differs',
+    overlay: 'changed on overlay'
+};
+
+/**
+ * wpm import <source> <changes> <bundle> [--dry-run] [--force]
+ *
+ * Makes the changes of a bundle written by `wpm export` on the overlay. A
+ * change whose source differs from the one it was made on, or whose path
+ * the overlay changed otherwise, is reported as a conflict. Nothing is
+ * imported while there are conflicts, unless forced.
+ */
+export default async function importChanges(args: Arguments): Promise<number> {
+    const repository = openRepository(args);
+    const bundlePath = args.positional[0];
+
+    if (!bundlePath) {
+        throw new UsageError('Missing <bundle> file.');
+    }
+
+    const bundle = new ChangeBundle(bundlePath);
+    const { changes } = await bundle.readManifest();
+    const dryRun = hasOption(args, 'dry-run'), force = hasOption(args, 'force');
+    let conflicts = 0;
+
+    for (const change of changes) {
+        const conflict = await bundle.findConflict(repository, change);
+        const line = `${codes[change.type]} ${change.directory ? change.path + '/' : change.path}`;
+
+        if (conflict) {
+            conflicts++;
+        }
+
+        console.log(conflict ? `${line} (conflict: ${reasons[conflict]})` : line);
+    }
+
+    if (conflicts > 0 && !force) {
+        console.error(`${conflicts} conflicting path(s): nothing imported. Use --force to overwrite them.`);
+        return 1;
+    }
+
+    if (dryRun) {
+        return 0;
+    }
+
+    await bundle.import(repository, changes);
+    console.info(`Imported ${changes.length} change(s) from ${bundlePath}.`);
+
+    return 0;
+}
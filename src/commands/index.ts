@@ -0,0 +1,32 @@
+import { Arguments } from "./arguments";
+import status from "./status";
+import diff from "./diff";
+import apply from "./apply";
+import revert from "./revert";
+import snapshot from "./snapshot";
+import compact from "./compact";
+import conflicts from "./conflicts";
+import exportChanges from "./export";
+import importChanges from "./import";
+import serve from "./serve";
+
+export type Command = (args: Arguments) => Promise<number>;
+
+/**
+ * Commands available on the command line. Without a command, `wpm`
+ * serves the mirror.
+ */
+const commands: { [name: string]: Command } = {
+    serve,
+    status,
+    diff,
+    apply,
+    revert,
+    snapshot,
+    compact,
+    conflicts,
+    export: exportChanges,
+    import: importChanges
+};
+
+export default commands;
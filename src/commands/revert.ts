@@ -0,0 +1,31 @@
+import { Arguments, openRepository, UsageError } from "./arguments";
+
+/**
+ * wpm revert <source> <changes> <path...>
+ *
+ * Discards the overlay changes of the given paths and their descendants.
+ * It must not run against the changes of a running server, that should
+ * be sent a `POST /.wpm/revert?path=<path>` request instead (see `AdminApi`).
+ */
+export default async function revert(args: Arguments): Promise<number> {
+    const repository = openRepository(args);
+
+    if (args.positional.length === 0) {
+        throw new UsageError('Missing <path> to revert.');
+    }
+
+    let code = 0;
+
+    for (const remotePath of args.positional) {
+        const normalized = '/' + remotePath.replace(/^\/+|\/+$/g, '');
+
+        if (await repository.revert(normalized)) {
+            console.log('Reverted', normalized);
+        } else {
+            console.error('Nothing to revert at', normalized);
+            code = 1;
+        }
+    }
+
+    return code;
+}
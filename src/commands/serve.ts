@@ -0,0 +1,151 @@
+import * as path from "path";
+import { createPreservingMirrorServer } from "../PreservingMirrorServer";
+import { AuditConfig, AuditLevel } from "../AuditLog";
+import { ServerConfig, AuthConfig, AuthenticationType, DEFAULT_PORT, readConfig, readPolicy, parseMount, parseSize, validateConfig } from "../config";
+import { Arguments, getOption, hasOption, UsageError } from "./arguments";
+
+/**
+ * wpm serve [<source> <changes>] [--config=<file>] [--host=<host>] [--port=<port>]
+ *           [--cert=<file> --key=<file> [--ca=<file>]] [--mount=<prefix>,<source>,<changes>...]
+ *           [--users=<file> [--auth=basic|digest] [--realm=<realm>] [--shared]] [--policy=<file>]
+ *           [--quota-bytes=<size>] [--quota-files=<count>] [--delta-threshold=<size>] [--case-insensitive]
+ *           [--audit-log=<file>|-] [--audit-level=off|error|info|debug] [--audit-max-size=<size>] [--audit-max-files=<count>]
+ *           [--admin-token=<token>]
+ *
+ * Serves mirrors over WebDAV, each mount with its own changes directory.
+ * Options override the configuration file; mounts are added to its mounts,
+ * and `<source> <changes>` is mounted at `/`. A changes directory given as
+ * `memory:` keeps the changes in memory, lost once the server stops.
+ *
+ * Given a users file, requests must be authenticated, and each user gets its
+ * own changes directory under `<changes>/users/<username>`, unless they are
+ * `--shared`.
+ *
+ * The `--policy` file and the quota options apply to the mounts without a
+ * policy or a quota of their own. Overlays over their quota answer writes
+ * with 507 Insufficient Storage.
+ *
+ * Files of at least `--delta-threshold` are copied up as delta files,
+ * storing only the blocks written, as by partial PUT requests
+ * (`Content-Range`).
+ *
+ * With `--case-insensitive`, as for Windows and macOS clients, request
+ * paths match names in any case, which keep the case they were created
+ * with (see `resolvePathCase`).
+ *
+ * The changes are logged as JSON lines (see `AuditLog`), by default on the
+ * standard output.
+ *
+ * With `--admin-token`, the admin API is served under `/.wpm/`, for the
+ * requests bearing this token (see `AdminApi`).
+ *
+ * Runs a `PreservingMirrorServer`, resolving once it is stopped.
+ */
+export default async function serve(args: Arguments): Promise<number> {
+    const server = createPreservingMirrorServer(getConfig(args));
+
+    for (const mount of server.config.mounts) {
+        console.log('Mount:', mount.path);
+        console.log('Mirror-Path:', (typeof mount.source === 'string' ? [mount.source] : mount.source).join(path.delimiter));
+        console.log('Changes-Path:', mount.changes);
+    }
+
+    await server.start();
+    console.log('Ready!', `${server.config.https ? 'https' : 'http'}://${server.config.host || 'localhost'}:${server.config.port}/`);
+
+    const stop = () => server.stop().catch(err => {
+        console.error('Cannot stop the server!', err);
+        process.exit(-1);
+    });
+
+    process.once('SIGINT', stop);
+    process.once('SIGTERM', stop);
+
+    return new Promise<number>(resolve => server.once('stop', () => resolve(0)));
+}
+
+function getConfig(args: Arguments): ServerConfig {
+    const configPath = getOption(args, 'config');
+    const file = configPath ? readConfig(configPath) : {};
+    const mounts = (file.mounts || []).concat((args.options.mount || []).map(parseMount));
+    const port = getOption(args, 'port');
+    const cert = getOption(args, 'cert'), key = getOption(args, 'key');
+    const policyPath = getOption(args, 'policy');
+    const quotaBytes = getOption(args, 'quota-bytes'), quotaFiles = getOption(args, 'quota-files');
+    const deltaThreshold = getOption(args, 'delta-threshold');
+    const adminToken = getOption(args, 'admin-token');
+
+    if (args.positional.length === 2) {
+        mounts.push({ path: '/', source: args.positional[0].split(path.delimiter), changes: args.positional[1] });
+    } else if (args.positional.length > 0) {
+        throw new UsageError('Expected <source directory> and <changes repository directory path>.');
+    }
+
+    if (policyPath) {
+        const policy = readPolicy(policyPath);
+
+        mounts.filter(mount => !mount.policy).forEach(mount => mount.policy = policy);
+    }
+
+    try {
+        if (quotaBytes !== undefined || quotaFiles !== undefined) {
+            const quota = {
+                bytes: quotaBytes !== undefined ? parseSize(quotaBytes) : undefined,
+                files: quotaFiles !== undefined ? Number(quotaFiles) : undefined
+            };
+
+            mounts.filter(mount => !mount.quota).forEach(mount => mount.quota = quota);
+        }
+
+        if (hasOption(args, 'case-insensitive')) {
+            mounts.filter(mount => mount.caseInsensitive === undefined).forEach(mount => mount.caseInsensitive = true);
+        }
+
+        if (deltaThreshold !== undefined) {
+            const threshold = parseSize(deltaThreshold);
+
+            mounts.filter(mount => mount.deltaThreshold === undefined).forEach(mount => mount.deltaThreshold = threshold);
+        }
+
+        return validateConfig({
+            host: getOption(args, 'host') || file.host,
+            port: port !== undefined ? Number(port) : file.port !== undefined ? file.port : DEFAULT_PORT,
+            https: cert || key ? { cert: cert!, key: key!, ca: getOption(args, 'ca') } : file.https,
+            auth: getAuthConfig(args, file.auth),
+            admin: adminToken !== undefined ? { token: adminToken } : file.admin,
+            audit: getAuditConfig(args, file.audit),
+            mounts
+        });
+    } catch (err) {
+        throw new UsageError(err.message);
+    }
+}
+
+function getAuthConfig(args: Arguments, auth?: AuthConfig): AuthConfig | undefined {
+    const users = getOption(args, 'users') || auth && auth.users;
+
+    if (!users && !hasOption(args, 'auth')) {
+        return auth;
+    }
+
+    return {
+        type: (getOption(args, 'auth') || auth && auth.type || 'basic') as AuthenticationType,
+        users: users!,
+        realm: getOption(args, 'realm') || auth && auth.realm,
+        shared: hasOption(args, 'shared') || !!(auth && auth.shared)
+    };
+}
+
+function getAuditConfig(args: Arguments, audit?: AuditConfig): AuditConfig {
+    const maxSize = getOption(args, 'audit-max-size'), maxFiles = getOption(args, 'audit-max-files');
+    const auditPath = getOption(args, 'audit-log');
+
+    audit = audit || { path: '-', level: 'info' };
+
+    return {
+        path: auditPath !== undefined ? auditPath : audit.path,
+        level: (getOption(args, 'audit-level') || audit.level) as AuditLevel,
+        maxSize: maxSize !== undefined ? parseSize(maxSize) : audit.maxSize,
+        maxFiles: maxFiles !== undefined ? Number(maxFiles) : audit.maxFiles
+    };
+}
@@ -0,0 +1,69 @@
+import { Arguments, openRepository, hasOption, UsageError } from "./arguments";
+import { codes } from "./status";
+import SnapshotStore from "../SnapshotStore";
+
+/**
+ * wpm snapshot <source> <changes> list [--json]
+ * wpm snapshot <source> <changes> create <name>
+ * wpm snapshot <source> <changes> diff <from> [<to>] [--json]
+ * wpm snapshot <source> <changes> rollback <name>
+ * wpm snapshot <source> <changes> delete <name>
+ *
+ * Manages named checkpoints of the overlay. `diff` compares a snapshot to
+ * another one, or to the live overlay. A running server must be sent
+ * `POST /.wpm/snapshot?name=<name>` or `POST /.wpm/rollback?name=<name>`
+ * instead of running `create` or `rollback` against its changes (see
+ * `AdminApi`).
+ */
+export default async function snapshot(args: Arguments): Promise<number> {
+    const snapshots = new SnapshotStore(openRepository(args));
+    const [action, ...names] = args.positional;
+    const requireName = () => {
+        if (!names[0]) {
+            throw new UsageError(`Missing snapshot <name> to ${action}.`);
+        }
+
+        return names[0];
+    };
+
+    switch (action) {
+        case 'list': {
+            const list = await snapshots.list();
+
+            if (hasOption(args, 'json')) {
+                console.log(JSON.stringify(list, null, 2));
+            } else {
+                list.forEach(info => console.log(info.created, info.name));
+            }
+
+            return 0;
+        }
+
+        case 'create':
+            await snapshots.create(requireName());
+            return 0;
+
+        case 'diff': {
+            const changes = await snapshots.compare(requireName(), names[1]);
+
+            if (hasOption(args, 'json')) {
+                console.log(JSON.stringify(changes, null, 2));
+            } else {
+                changes.forEach(change => console.log(codes[change.type], change.directory ? change.path + '/' : change.path));
+            }
+
+            return 0;
+        }
+
+        case 'rollback':
+            await snapshots.rollback(requireName());
+            return 0;
+
+        case 'delete':
+            await snapshots.delete(requireName());
+            return 0;
+
+        default:
+            throw new UsageError(action ? `Unknown snapshot action: ${action}` : 'Missing snapshot action.');
+    }
+}
@@ -0,0 +1,28 @@
+import { Arguments, openRepository, openPolicy, hasOption } from "./arguments";
+import { ChangeType } from "../MirrorRepository";
+
+export const codes: { [type in ChangeType]: string } = {
+    added: 'A',
+    modified: 'M',
+    deleted: 'D'
+};
+
+/**
+ * wpm status <source> <changes> [--json] [--policy=<file>]
+ *
+ * Lists paths added, modified or deleted on the overlay, but the ignored
+ * ones.
+ */
+export default async function status(args: Arguments): Promise<number> {
+    const repository = openRepository(args);
+    const policy = openPolicy(args);
+    const changes = (await repository.changes()).filter(change => !policy.isIgnored(change.path));
+
+    if (hasOption(args, 'json')) {
+        console.log(JSON.stringify(changes, null, 2));
+    } else {
+        changes.forEach(change => console.log(codes[change.type], change.directory ? change.path + '/' : change.path));
+    }
+
+    return 0;
+}
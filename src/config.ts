@@ -0,0 +1,316 @@
+import { readFileSync } from "fs";
+import * as path from "path";
+import * as yaml from "js-yaml";
+import { isValidUserName } from "./UserRepositories";
+import { PolicyConfig } from "./PathPolicy";
+import { Quota } from "./MirrorRepository";
+import AuditLog, { AuditConfig } from "./AuditLog";
+import { isMemoryPath } from "./storage";
+
+export const DEFAULT_PORT = 1900;
+
+/**
+ * Prefix of the admin API, reserved when it is enabled (see `AdminApi`).
+ */
+export const ADMIN_PATH = '/.wpm';
+
+/**
+ * A source served at a URL prefix, with its own changes directory.
+ */
+export interface MountConfig {
+    /**
+     * URL prefix, as `/` or `/datasets/a`.
+     */
+    path: string;
+
+    /**
+     * Source directory or archive, or its lower layers, topmost first.
+     */
+    source: string | string[];
+
+    /**
+     * Changes directory, or `memory:` to keep the changes in memory only,
+     * until the server stops.
+     */
+    changes: string;
+    policy?: PolicyConfig;
+
+    /**
+     * Limits of the overlay, for each user when they have their own.
+     */
+    quota?: Quota;
+
+    /**
+     * Size from which files are copied up as delta files (see `DeltaFile`).
+     */
+    deltaThreshold?: number;
+
+    /**
+     * Whether paths may be given in any case, as by Windows and macOS
+     * clients (see `MirrorRepository.caseInsensitive`).
+     */
+    caseInsensitive?: boolean;
+}
+
+export interface HttpsConfig {
+    cert: string;
+    key: string;
+    ca?: string;
+}
+
+export type AuthenticationType = 'basic' | 'digest';
+
+export interface AuthConfig {
+    type: AuthenticationType;
+
+    /**
+     * Users file, mapping each user name to its password (see `readUsers`).
+     */
+    users: string;
+    realm?: string;
+
+    /**
+     * Whether the users share the changes directory of each mount, instead
+     * of having their own under `<changes>/users/<username>`.
+     */
+    shared?: boolean;
+}
+
+export interface AdminConfig {
+    /**
+     * Bearer token of the admin API, apart from the WebDAV users.
+     */
+    token: string;
+}
+
+export interface ServerConfig {
+    host?: string;
+    port: number;
+    https?: HttpsConfig;
+    auth?: AuthConfig;
+    admin?: AdminConfig;
+    audit: AuditConfig;
+    mounts: MountConfig[];
+}
+
+/**
+ * Reads a configuration file, in JSON or in YAML (`.yaml` or `.yml`).
+ * Relative paths are resolved against the directory of the file.
+ */
+export function readConfig(configPath: string): Partial<ServerConfig> {
+    const data = readObject(configPath, 'configuration');
+    const base = path.dirname(path.resolve(configPath));
+    const resolve = (file: string) => path.resolve(base, file);
+    const config: Partial<ServerConfig> = {};
+
+    if (data.host !== undefined) {
+        config.host = String(data.host);
+    }
+
+    if (data.port !== undefined) {
+        config.port = Number(data.port);
+    }
+
+    if (data.https) {
+        config.https = {
+            cert: resolve(data.https.cert),
+            key: resolve(data.https.key),
+            ca: data.https.ca && resolve(data.https.ca)
+        };
+    }
+
+    if (data.auth) {
+        config.auth = {
+            type: data.auth.type || 'basic',
+            users: data.auth.users && resolve(data.auth.users),
+            realm: data.auth.realm,
+            shared: !!data.auth.shared
+        };
+    }
+
+    if (data.admin) {
+        config.admin = { token: data.admin.token !== undefined ? String(data.admin.token) : data.admin.token };
+    }
+
+    if (data.audit) {
+        config.audit = {
+            path: !data.audit.path || data.audit.path === '-' ? '-' : resolve(data.audit.path),
+            level: data.audit.level || 'info',
+            maxSize: data.audit.maxSize !== undefined ? parseSize(String(data.audit.maxSize)) : undefined,
+            maxFiles: data.audit.maxFiles !== undefined ? Number(data.audit.maxFiles) : undefined
+        };
+    }
+
+    if (data.mounts) {
+        if (!Array.isArray(data.mounts)) {
+            throw new Error(`Invalid configuration ${configPath}: mounts must be a list.`);
+        }
+
+        config.mounts = data.mounts.map((mount: any) => ({
+            path: mount.path,
+            source: Array.isArray(mount.source) ? mount.source.map(resolve) : mount.source && resolve(mount.source),
+            changes: mount.changes && (isMemoryPath(mount.changes) ? mount.changes : resolve(mount.changes)),
+            policy: typeof mount.policy === 'string' ? readPolicy(resolve(mount.policy)) : mount.policy && parsePolicy(mount.policy, configPath),
+            quota: mount.quota && {
+                bytes: mount.quota.bytes !== undefined ? parseSize(String(mount.quota.bytes)) : undefined,
+                files: mount.quota.files !== undefined ? Number(mount.quota.files) : undefined
+            },
+            deltaThreshold: mount.deltaThreshold !== undefined ? parseSize(String(mount.deltaThreshold)) : undefined,
+            caseInsensitive: mount.caseInsensitive !== undefined ? !!mount.caseInsensitive : undefined
+        }));
+    }
+
+    return config;
+}
+
+/**
+ * Reads a users file, in JSON or in YAML, mapping each user name to its
+ * password. Passwords are kept in clear, as the digest authentication needs
+ * them.
+ */
+export function readUsers(usersPath: string): Map<string, string> {
+    const data = readObject(usersPath, 'users file');
+    const users = new Map<string, string>();
+
+    Object.keys(data).forEach(username => {
+        if (!isValidUserName(username)) {
+            throw new Error(`Invalid users file ${usersPath}: bad user name ${username}.`);
+        } else if (typeof data[username] !== 'string' && typeof data[username] !== 'number') {
+            throw new Error(`Invalid users file ${usersPath}: expected a password for ${username}.`);
+        }
+
+        users.set(username, String(data[username]));
+    });
+
+    return users;
+}
+
+/**
+ * Reads a path policy file, in JSON or in YAML, listing the `readOnly`,
+ * `hidden` and `ignored` globs (see `PathPolicy`).
+ */
+export function readPolicy(policyPath: string): PolicyConfig {
+    return parsePolicy(readObject(policyPath, 'policy file'), policyPath);
+}
+
+function parsePolicy(data: any, filePath: string): PolicyConfig {
+    const policy: PolicyConfig = {};
+
+    (['readOnly', 'hidden', 'ignored'] as (keyof PolicyConfig)[]).forEach(name => {
+        if (data[name] === undefined) {
+            return;
+        } else if (!Array.isArray(data[name]) || data[name].some((glob: any) => typeof glob !== 'string')) {
+            throw new Error(`Invalid policy in ${filePath}: ${name} must be a list of globs.`);
+        }
+
+        policy[name] = data[name];
+    });
+
+    return policy;
+}
+
+/**
+ * Parses a size in bytes, optionally with a binary unit: `512K`, `10M`,
+ * `2G` or `1T`.
+ */
+export function parseSize(value: string): number {
+    const match = /^\s*(\d+(?:\.\d+)?)\s*([KMGT]?)i?B?\s*$/i.exec(value);
+
+    if (!match) {
+        throw new Error(`Invalid size: ${value}.`);
+    }
+
+    return Math.floor(Number(match[1]) * Math.pow(1024, ' KMGT'.indexOf(match[2].toUpperCase() || ' ')));
+}
+
+/**
+ * Parses a mount given as `<prefix>,<source>,<changes>`, the source listing
+ * its layers separated as in `PATH`.
+ */
+export function parseMount(value: string): MountConfig {
+    const parts = value.split(',');
+
+    if (parts.length !== 3) {
+        throw new Error(`Invalid mount ${value}: expected <prefix>,<source>,<changes>.`);
+    }
+
+    return { path: parts[0], source: parts[1].split(path.delimiter), changes: parts[2] };
+}
+
+/**
+ * Checks a configuration, normalizing the mount prefixes.
+ */
+export function validateConfig(config: ServerConfig): ServerConfig {
+    const prefixes = new Set<string>(), changes = new Set<string>();
+
+    if (!Number.isInteger(config.port) || config.port < 0 || config.port > 65535) {
+        throw new Error(`Invalid port: ${config.port}.`);
+    }
+
+    if (config.https && (!config.https.cert || !config.https.key)) {
+        throw new Error('HTTPS needs both a certificate and a key.');
+    }
+
+    if (config.auth && (config.auth.type !== 'basic' && config.auth.type !== 'digest')) {
+        throw new Error(`Invalid authentication: ${config.auth.type}, expected basic or digest.`);
+    }
+
+    if (config.auth && !config.auth.users) {
+        throw new Error('Authentication needs a users file.');
+    }
+
+    if (config.admin && !config.admin.token) {
+        throw new Error('The admin API needs a token.');
+    }
+
+    if (!AuditLog.isLevel(config.audit.level)) {
+        throw new Error(`Invalid audit level: ${config.audit.level}, expected off, error, info or debug.`);
+    }
+
+    if (config.mounts.length === 0) {
+        throw new Error('Nothing to serve: no mount.');
+    }
+
+    config.mounts.forEach(mount => {
+        if (!mount.path || !mount.source || mount.source.length === 0 || !mount.changes) {
+            throw new Error(`Invalid mount ${mount.path}: it needs a path, a source and a changes directory.`);
+        }
+
+        mount.path = '/' + mount.path.replace(/^\/+|\/+$/g, '');
+
+        if (config.admin && (mount.path === ADMIN_PATH || mount.path.startsWith(ADMIN_PATH + '/'))) {
+            throw new Error(`Mount ${mount.path} is under ${ADMIN_PATH}, reserved for the admin API.`);
+        }
+
+        if (prefixes.has(mount.path)) {
+            throw new Error(`Mount ${mount.path} is given twice.`);
+        }
+
+        prefixes.add(mount.path);
+
+        if (!isMemoryPath(mount.changes)) {
+            if (changes.has(path.resolve(mount.changes))) {
+                throw new Error(`Mount ${mount.path} shares its changes directory with another mount.`);
+            }
+
+            changes.add(path.resolve(mount.changes));
+        }
+
+        if (mount.quota && [mount.quota.bytes, mount.quota.files].some(limit => limit !== undefined && !(limit >= 0))) {
+            throw new Error(`Invalid quota of mount ${mount.path}.`);
+        }
+    });
+
+    return config;
+}
+
+function readObject(filePath: string, kind: string): any {
+    const content = readFileSync(filePath).toString();
+    const data = /\.ya?ml$/i.test(filePath) ? yaml.safeLoad(content) : JSON.parse(content);
+
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        throw new Error(`Invalid ${kind} ${filePath}: expected an object.`);
+    }
+
+    return data;
+}
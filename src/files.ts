@@ -0,0 +1,286 @@
+import { lstat, unlink, rmdir, readdir, mkdir, link, mkdirSync, open, read, close, createWriteStream, Stats } from "fs";
+import * as path from "path";
+import { promisify } from "util";
+import { Readable, Transform, PassThrough } from "stream";
+import { createHash } from "crypto";
+import { ByteRange } from "./sources/Source";
+
+const openAsync = promisify(open), readAsync = promisify(read), closeAsync = promisify(close);
+const lstatAsync = promisify(lstat), readdirAsync = promisify(readdir), unlinkAsync = promisify(unlink), rmdirAsync = promisify(rmdir);
+const mkdirAsync = promisify(mkdir), linkAsync = promisify(link);
+
+/**
+ * Compares two files byte by byte, short-circuiting on different sizes.
+ */
+export async function sameContent(pathA: string, pathB: string, statsA: { size: number }, statsB: { size: number }): Promise<boolean> {
+    if (statsA.size !== statsB.size) {
+        return false;
+    }
+
+    const [fdA, fdB] = await Promise.all([openAsync(pathA, 'r'), openAsync(pathB, 'r')]);
+    const bufferA = Buffer.alloc(64 * 1024), bufferB = Buffer.alloc(64 * 1024);
+
+    try {
+        while (true) {
+            const [a, b] = await Promise.all([
+                readAsync(fdA, bufferA, 0, bufferA.length, null),
+                readAsync(fdB, bufferB, 0, bufferB.length, null)
+            ]);
+
+            if (a.bytesRead !== b.bytesRead || !bufferA.slice(0, a.bytesRead).equals(bufferB.slice(0, b.bytesRead))) {
+                return false;
+            }
+
+            if (a.bytesRead === 0) {
+                return true;
+            }
+        }
+    } finally {
+        await Promise.all([closeAsync(fdA), closeAsync(fdB)]);
+    }
+}
+
+/**
+ * Compares the content of two streams, destroying them once a difference
+ * is found.
+ */
+export function sameStreams(a: Readable, b: Readable): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+        const pending = [Buffer.alloc(0), Buffer.alloc(0)], ended = [false, false], streams = [a, b];
+        let done = false;
+
+        const finish = (err: Error | undefined, same: boolean) => {
+            if (!done) {
+                done = true;
+                streams.forEach(stream => stream.destroy());
+                return err ? reject(err) : resolve(same);
+            }
+        };
+        const check = () => {
+            const length = Math.min(pending[0].length, pending[1].length);
+
+            if (!pending[0].slice(0, length).equals(pending[1].slice(0, length))) {
+                return finish(undefined, false);
+            }
+
+            pending[0] = pending[0].slice(length);
+            pending[1] = pending[1].slice(length);
+
+            if ((ended[0] && pending[1].length > 0) || (ended[1] && pending[0].length > 0)) {
+                finish(undefined, false);
+            } else if (ended[0] && ended[1]) {
+                finish(undefined, true);
+            } else {
+                // Only the stream that is behind keeps flowing.
+                streams.forEach((stream, i) => pending[i].length > 0 ? stream.pause() : stream.resume());
+            }
+        };
+
+        streams.forEach((stream, i) => {
+            stream.on('data', (chunk: Buffer) => {
+                pending[i] = Buffer.concat([pending[i], chunk]);
+                check();
+            });
+            stream.once('end', () => {
+                ended[i] = true;
+                check();
+            });
+            stream.once('error', err => finish(err, false));
+        });
+    });
+}
+
+/**
+ * Reads a whole stream into memory.
+ */
+export function readStream(stream: Readable): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+
+        stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+        stream.once('error', reject);
+        stream.once('end', () => resolve(Buffer.concat(chunks)));
+    });
+}
+
+/**
+ * Computes the SHA-256 hash of a stream, in hex.
+ */
+export function hashStream(stream: Readable): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const hash = createHash('sha256');
+
+        stream.on('data', (chunk: Buffer) => hash.update(chunk));
+        stream.once('error', reject);
+        stream.once('end', () => resolve(hash.digest('hex')));
+    });
+}
+
+/**
+ * Writes a stream to a file.
+ */
+export function writeStream(stream: Readable, targetPath: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const output = createWriteStream(targetPath);
+
+        stream.once('error', err => {
+            output.destroy();
+            reject(err);
+        });
+        output.once('error', reject);
+        output.once('close', () => resolve());
+        stream.pipe(output);
+    });
+}
+
+/**
+ * Ends a stream, resolving once all is written, or rejecting as it fails.
+ */
+export function endStream(stream: NodeJS.WritableStream): Promise<void> {
+    return new Promise((resolve, reject) => {
+        stream.once('error', reject);
+        stream.end(() => resolve());
+    });
+}
+
+/**
+ * Keeps only a range of the bytes of a stream, which is destroyed once
+ * the range is read.
+ */
+export function sliceStream(stream: Readable, range: ByteRange): Readable {
+    let position = 0;
+    const slice = new Transform({
+        transform(chunk: Buffer, encoding: string, callback: Function) {
+            const from = Math.max(0, range.start - position), to = Math.min(chunk.length, range.end + 1 - position);
+
+            position += chunk.length;
+            callback(undefined, to > from ? chunk.slice(from, to) : undefined);
+
+            if (position > range.end) {
+                stream.unpipe(slice);
+                stream.destroy();
+                slice.end();
+            }
+        }
+    });
+
+    stream.once('error', err => slice.destroy(err));
+
+    return stream.pipe(slice);
+}
+
+/**
+ * Concatenates streams, each opened once the previous one ended.
+ */
+export function concatStreams(openers: (() => Readable | Promise<Readable>)[]): Readable {
+    const output = new PassThrough();
+    let input: Readable | undefined;
+    const next = (index: number) => {
+        if (index === openers.length) {
+            return output.end();
+        }
+
+        Promise.resolve().then(() => openers[index]()).then(stream => {
+            input = stream;
+            stream.once('error', err => output.destroy(err));
+            stream.once('end', () => next(index + 1));
+            stream.pipe(output, { end: false });
+        }, err => output.destroy(err));
+    };
+
+    output.once('close', () => input && input.destroy());
+    next(0);
+
+    return output;
+}
+
+/**
+ * Removes a file or a whole directory tree, like `rm -rf`.
+ */
+export async function removeTree(targetPath: string): Promise<void> {
+    let stats: Stats;
+
+    try {
+        stats = await lstatAsync(targetPath);
+    } catch (err) {
+        if (err.code === 'ENOENT') {
+            return;
+        }
+
+        throw err;
+    }
+
+    if (stats.isDirectory()) {
+        for (const file of await readdirAsync(targetPath)) {
+            await removeTree(path.join(targetPath, file));
+        }
+
+        await rmdirAsync(targetPath);
+    } else {
+        await unlinkAsync(targetPath);
+    }
+}
+
+/**
+ * Copies a directory tree, hard linking its files instead of copying
+ * their content. The target must not exist.
+ */
+export async function linkTree(sourcePath: string, targetPath: string): Promise<void> {
+    await mkdirAsync(targetPath);
+
+    for (const file of await readdirAsync(sourcePath)) {
+        const stats = await lstatAsync(path.join(sourcePath, file));
+
+        if (stats.isDirectory()) {
+            await linkTree(path.join(sourcePath, file), path.join(targetPath, file));
+        } else {
+            await linkAsync(path.join(sourcePath, file), path.join(targetPath, file));
+        }
+    }
+}
+
+/**
+ * Creates a directory with its missing ancestors, like `mkdir -p`.
+ */
+export async function mkDirByPath(targetDir: string): Promise<void> {
+    try {
+        await mkdirAsync(targetDir);
+    } catch (err) {
+        if (err.code === 'ENOENT') {
+            await mkDirByPath(path.dirname(targetDir));
+            return mkDirByPath(targetDir);
+        } else if (err.code !== 'EEXIST') {
+            throw err;
+        }
+    }
+}
+
+// https://stackoverflow.com/questions/31645738/how-to-create-full-path-with-nodes-fs-mkdirsync
+export function mkDirByPathSync(targetDir: string, { isRelativeToScript = false } = {}) {
+    const sep = path.sep;
+    const initDir = path.isAbsolute(targetDir) ? sep : '';
+    const baseDir = isRelativeToScript ? __dirname : '.';
+
+    return targetDir.split(sep).reduce((parentDir, childDir) => {
+        const curDir = path.resolve(baseDir, parentDir, childDir);
+        try {
+            mkdirSync(curDir);
+        } catch (err) {
+            if (err.code === 'EEXIST') { // curDir already exists!
+                return curDir;
+            }
+
+            // To avoid `EISDIR` error on Mac and `EACCES`-->`ENOENT` and `EPERM` on Windows.
+            if (err.code === 'ENOENT') { // Throw the original parentDir error on curDir `ENOENT` failure.
+                throw new Error(`EACCES: permission denied, mkdir '${parentDir}'`);
+            }
+
+            const caughtErr = ['EACCES', 'EPERM', 'EISDIR'].indexOf(err.code) > -1;
+            if (!caughtErr || caughtErr && curDir === path.resolve(targetDir)) {
+                throw err; // Throw if it's just the last created dir.
+            }
+        }
+
+        return curDir;
+    }, initDir);
+}
\ No newline at end of file
@@ -0,0 +1,48 @@
+/**
+ * Compiles a glob pattern into a regular expression matching WebDAV paths.
+ *
+ * Patterns containing a `/` are anchored at the root; others match a name
+ * at any depth, as in `.gitignore`. A pattern matching a directory also
+ * matches everything under it. Supports `*`, `**`, `?` and `[...]`.
+ */
+export function compileGlob(pattern: string): RegExp {
+    const anchored = pattern.replace(/\/+$/, '').indexOf('/') >= 0;
+    let source = '';
+
+    pattern = pattern.replace(/^\/+/, '').replace(/\/+$/, '');
+
+    for (let i = 0; i < pattern.length; i++) {
+        const c = pattern[i];
+
+        if (c === '*' && pattern[i + 1] === '*') {
+            if (pattern[i + 2] === '/') {
+                source += '(?:.*/)?';
+                i += 2;
+            } else {
+                source += '.*';
+                i++;
+            }
+        } else if (c === '*') {
+            source += '[^/]*';
+        } else if (c === '?') {
+            source += '[^/]';
+        } else if (c === '[' && pattern.indexOf(']', i + 1) > i + 1) {
+            const end = pattern.indexOf(']', i + 1);
+            const set = pattern.substring(i + 1, end);
+
+            source += '[' + (set[0] === '!' ? '^' + set.substring(1) : set).replace(/\\/g, '\\\\') + ']';
+            i = end;
+        } else {
+            source += c.replace(/[\\^$.|+(){}\[\]]/g, '\\$&');
+        }
+    }
+
+    return new RegExp(`^${anchored ? '/' : '(?:.*/)?'}${source}(?:/.*)?$`);
+}
+
+/**
+ * Checks whether a WebDAV path matches any of the patterns.
+ */
+export function matchesAny(path: string, patterns: RegExp[]): boolean {
+    return patterns.some(pattern => pattern.test(path));
+}
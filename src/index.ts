@@ -1,43 +1,21 @@
-import { v2 as webdav } from 'webdav-server';
-import PreservingMirrorFileSystem from './PreservingMirrorFileSystem';
-import MirrorRepository from './MirrorRepository';
-import process from 'process';
-
-if (process.argv.length != 4) {
-    console.error('Syntax: wpm <source directory> <changes repository directory path>')
-    process.exit(-1);
-}
-
-const mirrorPath = process.argv[2];
-const changesPath = process.argv[3];
-
-console.log('Mirror-Path:', mirrorPath);
-console.log('Changes-Path:', changesPath);
-
-const mirror = new MirrorRepository(mirrorPath, changesPath);
-
-const server = new webdav.WebDAVServer({
-    port: 1900
-});
-
-
-server.setFileSystemSync('/', new PreservingMirrorFileSystem(mirror));
-
-server.afterRequest((arg, next) => {
-    if (arg.response.statusCode >= 400) {
-        let prefixo; 
-
-        if ((arg.request as any).$ts) {
-            const dif = new Date().getTime() - (arg.request as any).$ts;
-            prefixo = `[${dif}ms] >>`;
-        } else {
-            prefixo = `[${new Date().toString()}] >>`;
-        }
-
-        console.log(prefixo, arg.request.method, arg.request.url, '>', arg.response.statusCode, arg.response.statusMessage);
-
-        next();
-    }
-});
-
-server.start(() => console.log('Ready!'));
\ No newline at end of file
+/**
+ * Library entry point, to embed mirrors in another application. The `wpm`
+ * command line is in `cli.ts`.
+ */
+export { default as PreservingMirrorServer, createPreservingMirrorServer, ServerOptions, PreservingMirrorServerEvents, ChangeEvent, CopyUpEvent, WriteEvent, RequestErrorEvent } from './PreservingMirrorServer';
+export { default as PreservingMirrorFileSystem, Workspace } from './PreservingMirrorFileSystem';
+export { default as MirrorRepository, Change, ChangeType, Conflict, Drift, OverlayStats, Quota, Usage } from './MirrorRepository';
+export { default as UserRepositories } from './UserRepositories';
+export { default as PathPolicy, PolicyConfig } from './PathPolicy';
+export { default as ServerStats, LatencyStats, ErrorRecord } from './ServerStats';
+export { default as AdminApi } from './AdminApi';
+export { default as AuditLog, AuditConfig, AuditLevel, AuditRecord } from './AuditLog';
+export { default as ChangeBundle, BundleManifest, BundledChange, BundleConflict, Fingerprint } from './ChangeBundle';
+export { JournalRecord, JournalOperation, SourceVersion } from './Journal';
+export { ServerConfig, MountConfig, HttpsConfig, AuthConfig, AdminConfig, AuthenticationType, readConfig, readUsers, readPolicy, parseSize } from './config';
+export { default as Source, SourceStats, ByteRange } from './sources/Source';
+export { openSource } from './sources';
+export { default as OverlayStorage, StoredEntry, StoredType, WritePosition } from './storage/OverlayStorage';
+export { default as DirectoryStorage } from './storage/DirectoryStorage';
+export { default as MemoryStorage } from './storage/MemoryStorage';
+export { openStorage } from './storage';
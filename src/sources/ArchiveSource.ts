@@ -0,0 +1,168 @@
+import { createWriteStream } from "fs";
+import { Readable } from "stream";
+import Source, { SourceStats, ByteRange, sourceError } from "./Source";
+import { sliceStream } from "../files";
+
+/**
+ * An entry of an archive, as listed on its index.
+ */
+export interface ArchiveEntry {
+    /**
+     * WebDAV path of the entry (`/dir/file`).
+     */
+    path: string;
+    directory: boolean;
+    size: number;
+    mode: number;
+    mtime: Date;
+}
+
+/**
+ * A source backed by an archive file. Its index is read on first use,
+ * and files are streamed out of the archive.
+ */
+export default abstract class ArchiveSource implements Source {
+    private index?: Promise<Map<string, ArchiveEntry>>;
+    private readonly children = new Map<string, Set<string>>();
+
+    constructor(public readonly archivePath: string) {
+    }
+
+    public async stat(remotePath: string): Promise<SourceStats> {
+        const entry = await this.getEntry(remotePath, 'stat');
+
+        return {
+            size: entry.size,
+            mode: entry.mode,
+            mtime: entry.mtime,
+            birthtime: entry.mtime,
+            isFile: () => !entry.directory,
+            isDirectory: () => entry.directory
+        };
+    }
+
+    public async readDir(remotePath: string): Promise<string[]> {
+        const entry = await this.getEntry(remotePath, 'scandir');
+
+        if (!entry.directory) {
+            throw sourceError('ENOTDIR', 'scandir', remotePath);
+        }
+
+        return Array.from(this.children.get(entry.path) || []);
+    }
+
+    /**
+     * Streams a file out of the archive. A range is read by skipping the
+     * bytes before it.
+     */
+    public async createReadStream(remotePath: string, range?: ByteRange): Promise<Readable> {
+        const entry = await this.getEntry(remotePath, 'open');
+
+        if (entry.directory) {
+            throw sourceError('EISDIR', 'read', remotePath);
+        }
+
+        return range ? sliceStream(this.openEntry(entry), range) : this.openEntry(entry);
+    }
+
+    public async copyFile(remotePath: string, localPath: string): Promise<void> {
+        const input = await this.createReadStream(remotePath);
+        const entry = await this.getEntry(remotePath, 'copyfile');
+
+        return new Promise<void>((resolve, reject) => {
+            const output = createWriteStream(localPath, { mode: entry.mode & 0o777 });
+
+            input.once('error', err => {
+                output.destroy();
+                reject(err);
+            });
+            output.once('error', reject);
+            output.once('close', () => resolve());
+            input.pipe(output);
+        });
+    }
+
+    /**
+     * Lists all entries of the archive.
+     */
+    protected abstract readEntries(): Promise<ArchiveEntry[]>;
+
+    /**
+     * Streams the content of a file entry.
+     */
+    protected abstract openEntry(entry: ArchiveEntry): Readable;
+
+    private async getEntry(remotePath: string, syscall: string): Promise<ArchiveEntry> {
+        const index = await this.getIndex();
+        const normalized = normalize(remotePath);
+        const entry = index.get(normalized);
+
+        if (entry) {
+            return entry;
+        }
+
+        // Mimics `fs`, that tells when an ancestor is a file.
+        for (let ancestor = parentOf(normalized); ancestor !== undefined; ancestor = parentOf(ancestor)) {
+            const ancestorEntry = index.get(ancestor);
+
+            if (ancestorEntry) {
+                throw sourceError(ancestorEntry.directory ? 'ENOENT' : 'ENOTDIR', syscall, remotePath);
+            }
+        }
+
+        throw sourceError('ENOENT', syscall, remotePath);
+    }
+
+    private getIndex(): Promise<Map<string, ArchiveEntry>> {
+        if (!this.index) {
+            this.index = this.readEntries().then(entries => {
+                const index = new Map<string, ArchiveEntry>();
+                const root: ArchiveEntry = { path: '/', directory: true, size: 0, mode: 0o40555, mtime: new Date(0) };
+
+                index.set('/', root);
+
+                for (const entry of entries) {
+                    entry.path = normalize(entry.path);
+                    index.set(entry.path, entry);
+                    this.register(index, entry);
+                }
+
+                return index;
+            });
+        }
+
+        return this.index;
+    }
+
+    /**
+     * Registers an entry on its parent, that is implied when the archive
+     * does not list it.
+     */
+    private register(index: Map<string, ArchiveEntry>, entry: ArchiveEntry) {
+        const parent = parentOf(entry.path);
+
+        if (parent === undefined) {
+            return;
+        }
+
+        if (!index.has(parent)) {
+            const implied: ArchiveEntry = { path: parent, directory: true, size: 0, mode: 0o40555, mtime: entry.mtime };
+
+            index.set(parent, implied);
+            this.register(index, implied);
+        }
+
+        const children = this.children.get(parent) || new Set<string>();
+
+        children.add(entry.path.substring(entry.path.lastIndexOf('/') + 1));
+        this.children.set(parent, children);
+    }
+}
+
+function normalize(remotePath: string): string {
+    return '/' + remotePath.split('/').filter(segment => segment.length > 0 && segment !== '.').join('/');
+}
+
+function parentOf(remotePath: string): string | undefined {
+    return remotePath === '/' ? undefined : remotePath.substring(0, remotePath.lastIndexOf('/')) || '/';
+}
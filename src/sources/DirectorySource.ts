@@ -0,0 +1,88 @@
+import { stat, readdir, access, copyFile, createReadStream } from "fs";
+import * as path from "path";
+import { promisify } from "util";
+import { Readable } from "stream";
+import Source, { SourceStats, ByteRange } from "./Source";
+
+const statAsync = promisify(stat), readdirAsync = promisify(readdir), accessAsync = promisify(access), copyFileAsync = promisify(copyFile);
+
+/**
+ * Number of directory listings kept by a source.
+ */
+const LISTING_CACHE_SIZE = 1000;
+
+/**
+ * A source backed by a local directory.
+ *
+ * Directory listings are cached while the modification time of their
+ * directory stays the same, the least recently used ones being dropped.
+ * Changes of access rights, which leave it the same, show once a listing
+ * is dropped.
+ */
+export default class DirectorySource implements Source {
+    private readonly listings = new Map<string, { mtime: number, files: string[] }>();
+
+    /**
+     * @param hidden Names of files left out of directory listings.
+     */
+    constructor(public readonly root: string, private readonly hidden: string[] = []) {
+    }
+
+    public stat(remotePath: string): Promise<SourceStats> {
+        return statAsync(this.resolve(remotePath));
+    }
+
+    /**
+     * Lists a directory, leaving out entries that cannot be accessed.
+     */
+    public async readDir(remotePath: string): Promise<string[]> {
+        const localPath = this.resolve(remotePath);
+        const mtime = (await statAsync(localPath)).mtimeMs;
+        const cached = this.listings.get(localPath);
+
+        this.listings.delete(localPath);
+
+        if (cached && cached.mtime === mtime) {
+            this.listings.set(localPath, cached);
+            return cached.files.slice();
+        }
+
+        const files = await readdirAsync(localPath);
+        const accessible = await Promise.all(files.map(file => accessAsync(this.resolve(remotePath, file)).then(() => true, () => false)));
+        const listing = { mtime, files: files.filter((file, index) => accessible[index] && this.hidden.indexOf(file) < 0) };
+
+        this.listings.set(localPath, listing);
+
+        if (this.listings.size > LISTING_CACHE_SIZE) {
+            this.listings.delete(this.listings.keys().next().value);
+        }
+
+        return listing.files.slice();
+    }
+
+    public createReadStream(remotePath: string, range?: ByteRange): Promise<Readable> {
+        return new Promise((resolve, reject) => {
+            const stream = createReadStream(this.resolve(remotePath), range);
+
+            stream.once('error', reject);
+            stream.once('open', () => {
+                stream.removeListener('error', reject);
+                resolve(stream);
+            });
+        });
+    }
+
+    public copyFile(remotePath: string, localPath: string): Promise<void> {
+        return copyFileAsync(this.resolve(remotePath), localPath);
+    }
+
+    private resolve(...remotePaths: string[]): string {
+        const segments = remotePaths.join('/').split('/').filter(segment => segment.length > 0);
+
+        if (segments.some(segment => segment === '..')) {
+            throw new Error('Path cannot backward.');
+        }
+
+        return path.join(this.root, ...segments);
+    }
+}
@@ -0,0 +1,80 @@
+import { Readable } from "stream";
+import Source, { SourceStats, ByteRange } from "./Source";
+
+/**
+ * A stack of sources (lower layers), resolved top-down as in overlayfs:
+ * the first layer having a path provides it, and a layer where a path
+ * is not a directory hides the layers below it. Directories are merged
+ * across layers.
+ */
+export default class LayeredSource implements Source {
+    /**
+     * @param layers Sources, from the topmost to the bottommost.
+     */
+    constructor(public readonly layers: Source[]) {
+        if (layers.length === 0) {
+            throw new Error('There must be at least one read-only layer.');
+        }
+    }
+
+    public async stat(remotePath: string): Promise<SourceStats> {
+        return (await this.resolve(remotePath)).stats;
+    }
+
+    public async readDir(remotePath: string): Promise<string[]> {
+        const files = new Set<string>();
+        let found = false, error: any;
+
+        for (const layer of this.layers) {
+            try {
+                (await layer.readDir(remotePath)).forEach(file => files.add(file));
+                found = true;
+            } catch (err) {
+                error = error || err;
+
+                if (err.code === 'ENOTDIR') {
+                    break;
+                } else if (err.code !== 'ENOENT') {
+                    throw err;
+                }
+            }
+        }
+
+        if (!found) {
+            throw error;
+        }
+
+        return Array.from(files);
+    }
+
+    public async createReadStream(remotePath: string, range?: ByteRange): Promise<Readable> {
+        return (await this.resolve(remotePath)).layer.createReadStream(remotePath, range);
+    }
+
+    public async copyFile(remotePath: string, localPath: string): Promise<void> {
+        return (await this.resolve(remotePath)).layer.copyFile(remotePath, localPath);
+    }
+
+    /**
+     * Finds the topmost layer having a path.
+     */
+    private async resolve(remotePath: string): Promise<{ layer: Source, stats: SourceStats }> {
+        let error: any;
+
+        for (const layer of this.layers) {
+            try {
+                return { layer, stats: await layer.stat(remotePath) };
+            } catch (err) {
+                error = error || err;
+
+                if (err.code === 'ENOTDIR') {
+                    break;
+                } else if (err.code !== 'ENOENT') {
+                    throw err;
+                }
+            }
+        }
+
+        throw error;
+    }
+}
@@ -0,0 +1,55 @@
+import { Readable } from "stream";
+
+/**
+ * Stats of a source entry. A subset of `fs.Stats`, that satisfies it.
+ */
+export interface SourceStats {
+    size: number;
+    mode: number;
+    mtime: Date;
+    birthtime: Date;
+    isFile(): boolean;
+    isDirectory(): boolean;
+}
+
+/**
+ * Range of bytes of a file, both ends included, as for `fs.createReadStream`.
+ */
+export interface ByteRange {
+    start: number;
+    end: number;
+}
+
+/**
+ * A read-only tree of files, addressed by WebDAV paths (`/dir/file`).
+ *
+ * Missing entries are rejected with errors coded as by `fs`: `ENOENT`,
+ * or `ENOTDIR` when an ancestor is not a directory.
+ */
+export default interface Source {
+    stat(remotePath: string): Promise<SourceStats>;
+    readDir(remotePath: string): Promise<string[]>;
+
+    /**
+     * Reads a file, or only a range of its bytes.
+     */
+    createReadStream(remotePath: string, range?: ByteRange): Promise<Readable>;
+
+    /**
+     * Copies a file out of the source, for copy-up.
+     */
+    copyFile(remotePath: string, localPath: string): Promise<void>;
+}
+
+export function sourceError(code: string, syscall: string, remotePath: string): Error {
+    const messages: { [code: string]: string } = {
+        ENOENT: 'no such file or directory',
+        ENOTDIR: 'not a directory',
+        EISDIR: 'illegal operation on a directory',
+        EEXIST: 'file already exists',
+        ENOTEMPTY: 'directory not empty',
+        EPERM: 'operation not permitted'
+    };
+
+    return Object.assign(new Error(`${code}: ${messages[code] || code}, ${syscall} '${remotePath}'`), { code, syscall, path: remotePath });
+}
@@ -0,0 +1,267 @@
+import { createReadStream } from "fs";
+import { Readable, PassThrough } from "stream";
+import { createGunzip } from "zlib";
+import ArchiveSource, { ArchiveEntry } from "./ArchiveSource";
+
+interface TarEntry extends ArchiveEntry {
+    /**
+     * Offset of the content on the uncompressed tar stream.
+     */
+    offset: number;
+}
+
+const BLOCK = 512;
+
+/**
+ * A source backed by a tar archive, optionally gzipped (`.tar.gz` or
+ * `.tgz`). Supports ustar, GNU long names and pax paths.
+ *
+ * A gzipped archive has no random access, so reading a file decompresses
+ * the archive up to it.
+ */
+export default class TarSource extends ArchiveSource {
+    private get gzipped(): boolean {
+        return /\.(tgz|gz)$/i.test(this.archivePath);
+    }
+
+    protected readEntries(): Promise<ArchiveEntry[]> {
+        return new Promise((resolve, reject) => {
+            const entries: TarEntry[] = [];
+            const parser = new TarParser(entry => entries.push(entry));
+            const input = this.openArchive();
+
+            input.on('data', (chunk: Buffer) => {
+                try {
+                    parser.write(chunk);
+                } catch (err) {
+                    input.removeAllListeners('end');
+                    input.destroy();
+                    reject(err);
+                }
+            });
+            input.once('error', reject);
+            input.once('end', () => resolve(entries));
+        });
+    }
+
+    protected openEntry(entry: ArchiveEntry): Readable {
+        const { offset, size } = entry as TarEntry;
+
+        if (size === 0) {
+            const empty = new PassThrough();
+
+            empty.end();
+            return empty;
+        } else if (!this.gzipped) {
+            return createReadStream(this.archivePath, { start: offset, end: offset + size - 1 });
+        } else {
+            return slice(this.openArchive(), offset, offset + size);
+        }
+    }
+
+    /**
+     * Opens the uncompressed tar stream.
+     */
+    private openArchive(): Readable {
+        const input = createReadStream(this.archivePath);
+
+        if (!this.gzipped) {
+            return input;
+        }
+
+        const gunzip = createGunzip();
+
+        input.once('error', err => gunzip.emit('error', err));
+        gunzip.once('close', () => input.destroy());
+
+        return input.pipe(gunzip);
+    }
+}
+
+/**
+ * Streams a range of bytes of another stream, destroying it afterwards.
+ */
+function slice(input: Readable, start: number, end: number): Readable {
+    const output = new PassThrough();
+    let position = 0;
+
+    input.on('data', (chunk: Buffer) => {
+        const from = Math.max(start - position, 0), to = Math.min(end - position, chunk.length);
+
+        position += chunk.length;
+
+        if (from < to && !output.write(chunk.slice(from, to))) {
+            input.pause();
+            output.once('drain', () => input.resume());
+        }
+
+        if (position >= end) {
+            input.removeAllListeners('data');
+            input.destroy();
+            output.end();
+        }
+    });
+    input.once('error', err => output.emit('error', err));
+    input.once('end', () => output.end());
+    output.once('close', () => input.destroy());
+
+    return output;
+}
+
+/**
+ * Push parser of tar headers, tracking the offset of each entry content.
+ */
+class TarParser {
+    private buffer = Buffer.alloc(0);
+    private position = 0;
+    private skip = 0;
+    private ended = false;
+    private extension?: { type: string, size: number };
+    private longName?: string;
+    private pax: { [key: string]: string } = {};
+
+    constructor(private readonly onEntry: (entry: TarEntry) => void) {
+    }
+
+    public write(chunk: Buffer) {
+        this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+        while (!this.ended) {
+            if (this.skip > 0) {
+                const skipped = Math.min(this.skip, this.buffer.length);
+
+                this.consume(skipped);
+                this.skip -= skipped;
+
+                if (this.skip > 0) {
+                    return;
+                }
+            } else if (this.extension) {
+                const padded = pad(this.extension.size);
+
+                if (this.buffer.length < padded) {
+                    return;
+                }
+
+                this.readExtension(this.extension.type, this.buffer.slice(0, this.extension.size));
+                this.extension = undefined;
+                this.consume(padded);
+            } else if (this.buffer.length >= BLOCK) {
+                const header = this.buffer.slice(0, BLOCK);
+
+                this.consume(BLOCK);
+                this.readHeader(header);
+            } else {
+                return;
+            }
+        }
+    }
+
+    private consume(length: number) {
+        this.buffer = this.buffer.slice(length);
+        this.position += length;
+    }
+
+    private readHeader(header: Buffer) {
+        if (header.every(byte => byte === 0)) {
+            this.ended = true;
+            return;
+        }
+
+        if (readNumber(header, 148, 8) !== checksum(header)) {
+            throw new Error('Not a tar archive, or corrupted.');
+        }
+
+        const type = String.fromCharCode(header[156] || 0x30);
+        const prefix = readString(header, 345, 155);
+        const name = this.pax.path || this.longName || (prefix ? `${prefix}/${readString(header, 0, 100)}` : readString(header, 0, 100));
+        const size = this.pax.size !== undefined ? parseInt(this.pax.size, 10) : readNumber(header, 124, 12);
+        const mtime = new Date(1000 * (this.pax.mtime !== undefined ? parseFloat(this.pax.mtime) : readNumber(header, 136, 12)));
+        const mode = readNumber(header, 100, 8) & 0o7777;
+
+        if (type !== 'L' && type !== 'x') {
+            this.longName = undefined;
+            this.pax = {};
+        }
+
+        switch (type) {
+            case 'L':
+            case 'x':
+                this.extension = { type, size };
+                return;
+
+            case '0':
+            case '7':
+                this.onEntry({ path: name, directory: false, size, mode: 0o100000 | mode, mtime, offset: this.position });
+                break;
+
+            case '5':
+                this.onEntry({ path: name, directory: true, size: 0, mode: 0o40000 | mode, mtime, offset: this.position });
+                break;
+        }
+
+        // Links, devices and global headers are skipped along with their content.
+        this.skip = pad(size);
+    }
+
+    private readExtension(type: string, data: Buffer) {
+        if (type === 'L') {
+            this.longName = data.toString('utf8').replace(/\0.*$/, '');
+            return;
+        }
+
+        // Pax records are "<length> <key>=<value>\n".
+        for (let offset = 0; offset < data.length;) {
+            const space = data.indexOf(0x20, offset);
+            const length = parseInt(data.toString('ascii', offset, space), 10);
+
+            if (space < 0 || !(length > 0)) {
+                break;
+            }
+
+            const record = data.toString('utf8', space + 1, offset + length - 1);
+            const equals = record.indexOf('=');
+
+            this.pax[record.substring(0, equals)] = record.substring(equals + 1);
+            offset += length;
+        }
+    }
+}
+
+function pad(size: number): number {
+    return Math.ceil(size / BLOCK) * BLOCK;
+}
+
+function readString(header: Buffer, offset: number, length: number): string {
+    const field = header.slice(offset, offset + length);
+    const end = field.indexOf(0);
+
+    return field.toString('utf8', 0, end >= 0 ? end : length);
+}
+
+/**
+ * Reads an octal number, or a base-256 one (GNU extension for large values).
+ */
+function readNumber(header: Buffer, offset: number, length: number): number {
+    if (header[offset] & 0x80) {
+        let value = header[offset] & 0x7f;
+
+        for (let i = 1; i < length; i++) {
+            value = value * 256 + header[offset + i];
+        }
+
+        return value;
+    }
+
+    return parseInt(readString(header, offset, length).trim() || '0', 8);
+}
+
+function checksum(header: Buffer): number {
+    let sum = 0;
+
+    for (let i = 0; i < BLOCK; i++) {
+        sum += i >= 148 && i < 156 ? 0x20 : header[i];
+    }
+
+    return sum;
+}
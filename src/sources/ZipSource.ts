@@ -0,0 +1,188 @@
+import { open, read, close, fstat, createReadStream } from "fs";
+import { promisify } from "util";
+import { Readable, PassThrough } from "stream";
+import { createInflateRaw } from "zlib";
+import ArchiveSource, { ArchiveEntry } from "./ArchiveSource";
+
+const openAsync = promisify(open), readAsync = promisify(read), closeAsync = promisify(close), fstatAsync = promisify(fstat);
+
+interface ZipEntry extends ArchiveEntry {
+    method: number;
+    compressedSize: number;
+    localHeaderOffset: number;
+    dataOffset: number;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR = 0x07064b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY = 0x06064b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const STORED = 0, DEFLATED = 8;
+const UNIX = 3;
+
+/**
+ * A source backed by a zip archive (including zip64). Entries must be
+ * stored or deflated.
+ */
+export default class ZipSource extends ArchiveSource {
+    protected async readEntries(): Promise<ArchiveEntry[]> {
+        const fd = await openAsync(this.archivePath, 'r');
+
+        try {
+            const { size } = await fstatAsync(fd);
+            const readAt = async (position: number, length: number) => {
+                const buffer = Buffer.alloc(length);
+                const { bytesRead } = await readAsync(fd, buffer, 0, length, position);
+
+                return buffer.slice(0, bytesRead);
+            };
+
+            // The end of central directory record is followed by a comment of up to 64 KiB.
+            const tailStart = Math.max(0, size - 22 - 0xffff);
+            const tail = await readAt(tailStart, size - tailStart);
+            let eocd = -1;
+
+            for (let i = tail.length - 22; i >= 0 && eocd < 0; i--) {
+                if (tail.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+                    eocd = i;
+                }
+            }
+
+            if (eocd < 0) {
+                throw new Error(`Not a zip archive: ${this.archivePath}`);
+            }
+
+            let count = tail.readUInt16LE(eocd + 10);
+            let directorySize = tail.readUInt32LE(eocd + 12);
+            let directoryOffset = tail.readUInt32LE(eocd + 16);
+
+            if (eocd >= 20 && tail.readUInt32LE(eocd - 20) === ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR) {
+                const zip64 = await readAt(readUInt64LE(tail, eocd - 20 + 8), 56);
+
+                if (zip64.readUInt32LE(0) === ZIP64_END_OF_CENTRAL_DIRECTORY) {
+                    count = readUInt64LE(zip64, 32);
+                    directorySize = readUInt64LE(zip64, 40);
+                    directoryOffset = readUInt64LE(zip64, 48);
+                }
+            }
+
+            const directory = await readAt(directoryOffset, directorySize);
+            const entries: ZipEntry[] = [];
+            let offset = 0;
+
+            for (let i = 0; i < count; i++) {
+                if (directory.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+                    throw new Error(`Corrupted zip central directory: ${this.archivePath}`);
+                }
+
+                const nameLength = directory.readUInt16LE(offset + 28);
+                const extraLength = directory.readUInt16LE(offset + 30);
+                const commentLength = directory.readUInt16LE(offset + 32);
+                const name = directory.toString('utf8', offset + 46, offset + 46 + nameLength);
+                const sizes = readZip64Extra(directory.slice(offset + 46 + nameLength, offset + 46 + nameLength + extraLength), {
+                    size: directory.readUInt32LE(offset + 24),
+                    compressedSize: directory.readUInt32LE(offset + 20),
+                    localHeaderOffset: directory.readUInt32LE(offset + 42)
+                });
+                const directoryEntry = name.endsWith('/');
+                const unixMode = directory.readUInt8(offset + 5) === UNIX ? directory.readUInt32LE(offset + 38) >>> 16 : 0;
+
+                entries.push({
+                    path: name,
+                    directory: directoryEntry,
+                    mode: unixMode || (directoryEntry ? 0o40555 : 0o100444),
+                    mtime: dosDateTime(directory.readUInt16LE(offset + 14), directory.readUInt16LE(offset + 12)),
+                    method: directory.readUInt16LE(offset + 10),
+                    dataOffset: 0,
+                    ...sizes
+                });
+
+                offset += 46 + nameLength + extraLength + commentLength;
+            }
+
+            // Data offsets depend on the local headers, that may differ from the central directory.
+            for (const entry of entries.filter(entry => !entry.directory)) {
+                const header = await readAt(entry.localHeaderOffset, 30);
+
+                if (header.readUInt32LE(0) !== LOCAL_FILE_HEADER) {
+                    throw new Error(`Corrupted zip entry: ${entry.path}`);
+                }
+
+                entry.dataOffset = entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+            }
+
+            return entries;
+        } finally {
+            await closeAsync(fd);
+        }
+    }
+
+    protected openEntry(entry: ArchiveEntry): Readable {
+        const zipEntry = entry as ZipEntry;
+
+        if (zipEntry.compressedSize === 0) {
+            const empty = new PassThrough();
+
+            empty.end();
+            return empty;
+        }
+
+        const raw = createReadStream(this.archivePath, {
+            start: zipEntry.dataOffset,
+            end: zipEntry.dataOffset + zipEntry.compressedSize - 1
+        });
+
+        switch (zipEntry.method) {
+            case STORED:
+                return raw;
+
+            case DEFLATED: {
+                const inflate = createInflateRaw();
+
+                raw.once('error', err => inflate.emit('error', err));
+                return raw.pipe(inflate);
+            }
+
+            default:
+                raw.destroy();
+                throw new Error(`Unsupported zip compression method ${zipEntry.method}: ${entry.path}`);
+        }
+    }
+}
+
+type ZipSizes = { size: number, compressedSize: number, localHeaderOffset: number };
+
+/**
+ * Reads 64-bit sizes from the zip64 extra field, that replace the ones
+ * saturated on the central directory.
+ */
+function readZip64Extra(extra: Buffer, sizes: ZipSizes): ZipSizes {
+    for (let offset = 0; offset + 4 <= extra.length; offset += 4 + extra.readUInt16LE(offset + 2)) {
+        if (extra.readUInt16LE(offset) === 0x0001) {
+            let field = offset + 4;
+            const next = () => {
+                const value = readUInt64LE(extra, field);
+
+                field += 8;
+                return value;
+            };
+
+            return {
+                size: sizes.size === 0xffffffff ? next() : sizes.size,
+                compressedSize: sizes.compressedSize === 0xffffffff ? next() : sizes.compressedSize,
+                localHeaderOffset: sizes.localHeaderOffset === 0xffffffff ? next() : sizes.localHeaderOffset
+            };
+        }
+    }
+
+    return sizes;
+}
+
+function readUInt64LE(buffer: Buffer, offset: number): number {
+    return buffer.readUInt32LE(offset + 4) * 0x100000000 + buffer.readUInt32LE(offset);
+}
+
+function dosDateTime(date: number, time: number): Date {
+    return new Date((date >> 9) + 1980, ((date >> 5) & 0xf) - 1, date & 0x1f, time >> 11, (time >> 5) & 0x3f, (time & 0x1f) * 2);
+}
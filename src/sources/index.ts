@@ -0,0 +1,18 @@
+import Source from "./Source";
+import DirectorySource from "./DirectorySource";
+import ZipSource from "./ZipSource";
+import TarSource from "./TarSource";
+
+/**
+ * Opens a read-only source, chosen by its path: a zip or tar archive
+ * (`.zip`, `.tar`, `.tar.gz`, `.tgz`), or a directory.
+ */
+export function openSource(sourcePath: string): Source {
+    if (/\.zip$/i.test(sourcePath)) {
+        return new ZipSource(sourcePath);
+    } else if (/\.(tar|tar\.gz|tgz)$/i.test(sourcePath)) {
+        return new TarSource(sourcePath);
+    } else {
+        return new DirectorySource(sourcePath);
+    }
+}
@@ -0,0 +1,505 @@
+import { stat, utimes, unlink, rmdir, copyFile, mkdir, readdir, readFile, writeFile, open, close, ftruncate, fsync, chmod, rename, createWriteStream } from "fs";
+import * as path from "path";
+import { promisify } from "util";
+import { Readable, Writable } from "stream";
+import { randomBytes } from "crypto";
+import { O_CREAT, O_RDWR } from "constants";
+import { endStream, mkDirByPath, removeTree } from "../files";
+import Source, { SourceStats, ByteRange } from "../sources/Source";
+import DirectorySource from "../sources/DirectorySource";
+import Journal, { JournalRecord } from "../Journal";
+import { DELTAS_DIR } from "../DeltaFile";
+import OverlayStorage, { StoredEntry, WritePosition } from "./OverlayStorage";
+
+const statAsync = promisify(stat), utimesAsync = promisify(utimes), unlinkAsync = promisify(unlink), rmdirAsync = promisify(rmdir);
+const copyFileAsync = promisify(copyFile), mkdirAsync = promisify(mkdir), writeFileAsync = promisify(writeFile), renameAsync = promisify(rename);
+const openAsync = promisify(open), closeAsync = promisify(close), ftruncateAsync = promisify(ftruncate), fsyncAsync = promisify(fsync), chmodAsync = promisify(chmod);
+const readdirAsync = promisify(readdir), readFileAsync = promisify(readFile);
+
+/**
+ * Name of the file marking a local directory as opaque: the contents of its
+ * source version are hidden, as the directory was deleted and re-created.
+ */
+export const OPAQUE_MARKER = '.wpm-opaque';
+
+/**
+ * Overlay kept in a changes directory: the local versions under `mirror`,
+ * the journal as `journal`, and the documents next to them.
+ *
+ * Files are copied and replaced through temporary files under `tmp`, synced
+ * and then renamed into place, so that a crash never leaves a partial file
+ * in the overlay. Only writes from a position change a file in place.
+ *
+ * The former `deleted` file, a plain list of paths, is read as the journal
+ * until the journal is written.
+ */
+export default class DirectoryStorage implements OverlayStorage {
+    private readonly tree: DirectorySource;
+    private readonly journal: Journal;
+    private locked = false;
+
+    /**
+     * Temporary files being written, which are not left behind.
+     */
+    private readonly writing = new Set<string>();
+
+    constructor(public readonly root: string, public readonly dirSeparator: string = path.sep) {
+        this.tree = new DirectorySource(this.overlayPath, [OPAQUE_MARKER, DELTAS_DIR]);
+        this.journal = new Journal(this.journalPath);
+    }
+
+    public get location(): string {
+        return this.root;
+    }
+
+    /**
+     * Path of the overlay directory, holding local versions of the files.
+     */
+    public get overlayPath(): string {
+        return this.resolvePath(this.root, 'mirror');
+    }
+
+    /**
+     * Path of the journal of the changes (see `Journal`).
+     */
+    public get journalPath(): string {
+        return this.resolvePath(this.root, 'journal');
+    }
+
+    /**
+     * Path of the lock file, holding the id of the process using the
+     * changes (see `lock`).
+     */
+    public get lockPath(): string {
+        return this.resolvePath(this.root, 'lock');
+    }
+
+    /**
+     * Path of the directory of the temporary files. As the process holding
+     * the lock is the only one to write them, the ones it is not writing
+     * are left behind.
+     */
+    public get tempPath(): string {
+        return this.resolvePath(this.root, 'tmp');
+    }
+
+    /**
+     * Path of the plain list of deleted entries, replaced by the journal.
+     */
+    private get legacyDeletedPath(): string {
+        return this.resolvePath(this.root, 'deleted');
+    }
+
+    public getDocumentPath(name: string): string {
+        return this.resolvePath(this.root, name);
+    }
+
+    public stat(remotePath: string): Promise<SourceStats> {
+        return this.tree.stat(remotePath);
+    }
+
+    public readDir(remotePath: string): Promise<string[]> {
+        return this.tree.readDir(remotePath);
+    }
+
+    /**
+     * Walks the overlay directory, creating it if missing.
+     */
+    public async listEntries(): Promise<StoredEntry[]> {
+        const entries: StoredEntry[] = [];
+        const walk = async (remotePath: string) => {
+            for (const file of await readdirAsync(this.getLocalPath(remotePath))) {
+                const child = joinRemotePath(remotePath, file);
+
+                if (file === DELTAS_DIR) {
+                    (await readdirAsync(this.getLocalPath(child))).forEach(name => entries.push({ path: joinRemotePath(remotePath, name), type: 'delta', size: 0, opaque: false }));
+                } else if (file !== OPAQUE_MARKER) {
+                    const stats = await statAsync(this.getLocalPath(child));
+
+                    if (stats.isDirectory()) {
+                        entries.push({ path: child, type: 'directory', size: 0, opaque: await this.isOpaque(child) });
+                        await walk(child);
+                    } else {
+                        entries.push({ path: child, type: 'file', size: stats.size, opaque: false });
+                    }
+                }
+            }
+        };
+
+        await mkDirByPath(this.overlayPath);
+        await walk('/');
+
+        return entries;
+    }
+
+    /**
+     * Removes the temporary files not being written, and, looking through
+     * the overlay, the delta files left without block map by an interrupted
+     * copy-up and the copies of detached files left by former versions.
+     */
+    public async recover(overlay: boolean): Promise<string[]> {
+        const removed: string[] = [];
+        const remove = async (localPath: string) => {
+            await removeTree(localPath);
+            removed.push(localPath);
+        };
+        const walk = async (localPath: string) => {
+            for (const file of await readdirAsync(localPath)) {
+                const child = path.join(localPath, file);
+
+                if (file === DELTAS_DIR) {
+                    for (const name of await readdirAsync(child)) {
+                        if (!await exists(path.join(child, name, 'map.json'))) {
+                            await remove(path.join(child, name));
+                        }
+                    }
+                } else if (file.endsWith('.wpm-detach')) {
+                    await remove(child);
+                } else if ((await statAsync(child)).isDirectory()) {
+                    await walk(child);
+                }
+            }
+        };
+
+        for (const file of await readdirAsync(this.tempPath).catch(() => [] as string[])) {
+            if (!this.writing.has(path.join(this.tempPath, file))) {
+                await remove(path.join(this.tempPath, file));
+            }
+        }
+
+        if (overlay) {
+            await mkDirByPath(this.overlayPath);
+            await walk(this.overlayPath);
+        }
+
+        return removed;
+    }
+
+    public createReadStream(remotePath: string, range?: ByteRange): Promise<Readable> {
+        return this.tree.createReadStream(remotePath, range);
+    }
+
+    /**
+     * Opens a file for writing. A replaced content goes to a temporary file,
+     * renamed over the file once all written: the file keeps its mode, and
+     * no longer shares its content with a snapshot (hard link). A file
+     * written from a position is detached from a snapshot first, so that
+     * the snapshot is preserved.
+     */
+    public async createWriteStream(remotePath: string, position?: WritePosition): Promise<Writable> {
+        const localPath = this.getLocalPath(remotePath);
+
+        if (!position) {
+            // Created empty meanwhile, as the file is expected to be there.
+            await this.createFile(remotePath);
+
+            const tempPath = await this.createTempPath();
+            const { mode } = await statAsync(localPath);
+
+            return createTempWriteStream(tempPath, () => this.commit(tempPath, localPath, mode), () => this.discard(tempPath));
+        }
+
+        await mkDirByPath(path.dirname(localPath));
+        await this.detach(localPath);
+
+        const fd = await openAsync(localPath, O_RDWR | O_CREAT);
+
+        if (position.size !== undefined) {
+            await ftruncateAsync(fd, position.size).catch(async err => {
+                await closeAsync(fd);
+                throw err;
+            });
+        }
+
+        return createWriteStream(localPath, { fd, start: position.start });
+    }
+
+    public async createFile(remotePath: string): Promise<void> {
+        const localPath = this.getLocalPath(remotePath);
+
+        await mkDirByPath(path.dirname(localPath));
+        await closeAsync(await openAsync(localPath, O_CREAT));
+    }
+
+    public importFile(source: Source, sourcePath: string, remotePath: string): Promise<void> {
+        return this.replace(this.getLocalPath(remotePath), tempPath => source.copyFile(sourcePath, tempPath));
+    }
+
+    public copyFile(fromPath: string, toPath: string): Promise<void> {
+        return this.replace(this.getLocalPath(toPath), tempPath => copyFileAsync(this.getLocalPath(fromPath), tempPath));
+    }
+
+    public setModifiedTime(remotePath: string, mtime: Date): Promise<void> {
+        return utimesAsync(this.getLocalPath(remotePath), mtime, mtime);
+    }
+
+    public async mkdir(remotePath: string): Promise<void> {
+        const localPath = this.getLocalPath(remotePath);
+
+        await mkDirByPath(path.dirname(localPath));
+
+        return mkdirAsync(localPath);
+    }
+
+    public isOpaque(remotePath: string): Promise<boolean> {
+        return statAsync(this.getMarkerPath(remotePath)).then(() => true, () => false);
+    }
+
+    public setOpaque(remotePath: string, opaque: boolean): Promise<void> {
+        return opaque ? writeFileAsync(this.getMarkerPath(remotePath), '') : unlinkAsync(this.getMarkerPath(remotePath)).catch(err => {
+            if (err.code !== 'ENOENT') {
+                throw err;
+            }
+        });
+    }
+
+    public async rename(fromPath: string, toPath: string): Promise<void> {
+        const localPath = this.getLocalPath(toPath);
+
+        await mkDirByPath(path.dirname(localPath));
+
+        return renameAsync(this.getLocalPath(fromPath), localPath);
+    }
+
+    /**
+     * Removes a file, or a directory with its opaque marker and its empty
+     * delta files directory.
+     */
+    public async remove(remotePath: string): Promise<void> {
+        const localPath = this.getLocalPath(remotePath);
+
+        if (!(await statAsync(localPath)).isDirectory()) {
+            return unlinkAsync(localPath);
+        }
+
+        await this.setOpaque(remotePath, false);
+        await rmdirAsync(this.getDeltasPath(remotePath)).catch(() => undefined);
+        await rmdirAsync(localPath);
+    }
+
+    public async removeTree(remotePath: string): Promise<void> {
+        await removeTree(this.getLocalPath(remotePath));
+        await mkDirByPath(this.overlayPath);
+    }
+
+    public async readJournal(): Promise<JournalRecord[]> {
+        const legacy = !await exists(this.journalPath) && await exists(this.legacyDeletedPath);
+
+        return Journal.read(legacy ? this.legacyDeletedPath : this.journalPath);
+    }
+
+    /**
+     * Replaces the journal, and drops the `deleted` file it replaced.
+     */
+    public async rewriteJournal(compact: (records: JournalRecord[]) => Promise<JournalRecord[]>): Promise<JournalRecord[]> {
+        const records = await this.journal.rewrite(async () => compact(await this.readJournal()));
+
+        await unlinkAsync(this.legacyDeletedPath).catch(err => {
+            if (err.code !== 'ENOENT') {
+                throw err;
+            }
+        });
+
+        return records;
+    }
+
+    public appendJournal(record: JournalRecord): Promise<void> {
+        return this.journal.append(record);
+    }
+
+    public async readDocument(name: string): Promise<string | undefined> {
+        try {
+            return (await readFileAsync(this.getDocumentPath(name))).toString();
+        } catch (err) {
+            if (err.code === 'ENOENT') {
+                return undefined;
+            }
+
+            throw err;
+        }
+    }
+
+    public writeDocument(name: string, content: string): Promise<void> {
+        return this.replace(this.getDocumentPath(name), tempPath => writeFileAsync(tempPath, content));
+    }
+
+    /**
+     * Takes the lock file, or takes it over from a process that ended
+     * without releasing it.
+     */
+    public async lock(): Promise<void> {
+        if (this.locked) {
+            return;
+        }
+
+        await mkDirByPath(this.root);
+
+        try {
+            await writeFileAsync(this.lockPath, String(process.pid), { flag: 'wx' });
+        } catch (err) {
+            if (err.code !== 'EEXIST') {
+                throw err;
+            }
+
+            const pid = parseInt((await readFileAsync(this.lockPath)).toString(), 10);
+
+            if (pid !== process.pid && isRunning(pid)) {
+                throw Object.assign(new Error(`The changes are used by process ${pid}: ${this.root}`), { code: 'EBUSY' });
+            }
+
+            await writeFileAsync(this.lockPath, String(process.pid));
+        }
+
+        this.locked = true;
+    }
+
+    public async close(): Promise<void> {
+        await this.journal.close();
+
+        if (this.locked) {
+            this.locked = false;
+            await unlinkAsync(this.lockPath).catch(() => undefined);
+        }
+    }
+
+    public getDeltasPath(remotePath: string): string {
+        return this.resolvePath(this.getLocalPath(remotePath), DELTAS_DIR);
+    }
+
+    /**
+     * Copies a local file before writing it when it shares its content with
+     * a snapshot (hard link).
+     */
+    private async detach(localPath: string): Promise<void> {
+        const stats = await statAsync(localPath).catch(err => {
+            if (err.code === 'ENOENT') {
+                return undefined;
+            }
+
+            throw err;
+        });
+
+        if (stats && stats.isFile() && stats.nlink > 1) {
+            await this.replace(localPath, tempPath => copyFileAsync(localPath, tempPath));
+        }
+    }
+
+    /**
+     * Writes a file as a temporary one, put in place once complete.
+     */
+    private async replace(localPath: string, write: (tempPath: string) => Promise<void>): Promise<void> {
+        const tempPath = await this.createTempPath();
+
+        try {
+            await write(tempPath);
+            await this.commit(tempPath, localPath);
+        } catch (err) {
+            await this.discard(tempPath);
+            throw err;
+        }
+    }
+
+    /**
+     * Syncs a complete temporary file to disk, then renames it into place.
+     *
+     * @param mode Mode to give it, as the one of the file it replaces.
+     */
+    private async commit(tempPath: string, localPath: string, mode?: number): Promise<void> {
+        const fd = await openAsync(tempPath, 'r');
+
+        try {
+            await fsyncAsync(fd);
+        } finally {
+            await closeAsync(fd);
+        }
+
+        if (mode !== undefined) {
+            await chmodAsync(tempPath, mode & 0o7777);
+        }
+
+        await mkDirByPath(path.dirname(localPath));
+        await renameAsync(tempPath, localPath);
+        this.writing.delete(tempPath);
+    }
+
+    private async discard(tempPath: string): Promise<void> {
+        this.writing.delete(tempPath);
+        await unlinkAsync(tempPath).catch(() => undefined);
+    }
+
+    private async createTempPath(): Promise<string> {
+        const tempPath = path.join(this.tempPath, randomBytes(8).toString('hex'));
+
+        await mkDirByPath(this.tempPath);
+        this.writing.add(tempPath);
+
+        return tempPath;
+    }
+
+    private getLocalPath(remotePath: string): string {
+        return this.resolvePath(this.overlayPath, remotePath);
+    }
+
+    private getMarkerPath(remotePath: string): string {
+        return this.resolvePath(this.getLocalPath(remotePath), OPAQUE_MARKER);
+    }
+
+    private resolvePath(...paths: string[]) {
+        return paths.reduce((a, b) => {
+            if (b.startsWith('..')) {
+                throw new Error('Path cannot backward.');
+            }
+
+            if (!a.endsWith(this.dirSeparator)) {
+                return b.startsWith(this.dirSeparator) ? a + b : `${a}${this.dirSeparator}${b}`;
+            } else {
+                return !b.startsWith(this.dirSeparator) ? a + b : a + b.substring(1);
+            }
+        });
+    }
+}
+
+/**
+ * Writes a temporary file, committed once all written. It is discarded if
+ * the stream fails or is destroyed before.
+ */
+function createTempWriteStream(tempPath: string, commit: () => Promise<void>, discard: () => Promise<void>): Writable {
+    const file = createWriteStream(tempPath);
+    let failure: Error | undefined;
+
+    file.once('error', err => failure = err);
+
+    return new Writable({
+        write: (chunk: Buffer, encoding: string, callback: Function) => {
+            file.write(chunk, callback);
+        },
+        final: callback => {
+            (failure ? Promise.reject(failure) : endStream(file).then(commit))
+                .then(() => callback(), err => discard().then(() => callback(err)));
+        },
+        destroy: (err, callback) => {
+            file.destroy();
+            discard().then(() => callback(err || undefined));
+        }
+    });
+}
+
+/**
+ * Checks whether a process runs, as the one holding the lock.
+ */
+function isRunning(pid: number): boolean {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (err) {
+        return err.code === 'EPERM';
+    }
+}
+
+function exists(localPath: string): Promise<boolean> {
+    return statAsync(localPath).then(() => true, () => false);
+}
+
+function joinRemotePath(remotePath: string, file: string): string {
+    return remotePath.endsWith('/') ? remotePath + file : `${remotePath}/${file}`;
+}
@@ -0,0 +1,356 @@
+import { Readable, Writable, PassThrough } from "stream";
+import { readStream } from "../files";
+import Source, { SourceStats, ByteRange, sourceError } from "../sources/Source";
+import { JournalRecord } from "../Journal";
+import OverlayStorage, { StoredEntry, WritePosition } from "./OverlayStorage";
+
+/**
+ * A local file or directory kept in memory.
+ */
+interface MemoryNode {
+    data?: Buffer;
+    children?: Map<string, MemoryNode>;
+    opaque: boolean;
+    mode: number;
+    mtime: Date;
+    birthtime: Date;
+}
+
+/**
+ * Overlay kept in memory, lost once the process exits: for throwaway
+ * sessions, and for testing the repository without touching the disk.
+ * Files are kept whole, without delta files.
+ */
+export default class MemoryStorage implements OverlayStorage {
+    private readonly root = createNode(true);
+    private readonly documents = new Map<string, string>();
+    private journal: JournalRecord[] = [];
+
+    constructor(public readonly location: string = 'memory:') {
+    }
+
+    public async stat(remotePath: string): Promise<SourceStats> {
+        return getStats(this.find(remotePath, 'stat'));
+    }
+
+    public async readDir(remotePath: string): Promise<string[]> {
+        const node = this.find(remotePath, 'scandir');
+
+        if (!node.children) {
+            throw sourceError('ENOTDIR', 'scandir', remotePath);
+        }
+
+        return Array.from(node.children.keys());
+    }
+
+    public async listEntries(): Promise<StoredEntry[]> {
+        const entries: StoredEntry[] = [];
+        const walk = (dir: string, node: MemoryNode) => node.children!.forEach((child, name) => {
+            const remotePath = dir === '/' ? `/${name}` : `${dir}/${name}`;
+
+            if (child.children) {
+                entries.push({ path: remotePath, type: 'directory', size: 0, opaque: child.opaque });
+                walk(remotePath, child);
+            } else {
+                entries.push({ path: remotePath, type: 'file', size: child.data!.length, opaque: false });
+            }
+        });
+
+        walk('/', this.root);
+
+        return entries;
+    }
+
+    /**
+     * Nothing outlives a crash in memory.
+     */
+    public async recover(overlay: boolean): Promise<string[]> {
+        return [];
+    }
+
+    public async createReadStream(remotePath: string, range?: ByteRange): Promise<Readable> {
+        const node = this.find(remotePath, 'open');
+
+        if (!node.data) {
+            throw sourceError('EISDIR', 'open', remotePath);
+        }
+
+        const stream = new PassThrough();
+
+        stream.end(range ? node.data.slice(range.start, range.end + 1) : node.data);
+
+        return stream;
+    }
+
+    public async createWriteStream(remotePath: string, position?: WritePosition): Promise<Writable> {
+        const node = this.getFile(remotePath, 'open');
+        const offset = position ? position.start : 0;
+
+        if (position && position.size !== undefined) {
+            node.data = resize(node.data!, position.size);
+        }
+
+        node.mtime = new Date();
+
+        // The chunks are put in place once all written, instead of growing the file at each one.
+        const chunks: Buffer[] = [];
+
+        return new Writable({
+            write(chunk: Buffer, encoding: string, callback: Function) {
+                chunks.push(chunk);
+                callback();
+            },
+            final(callback: Function) {
+                const written = Buffer.concat(chunks);
+
+                if (position) {
+                    const data = resize(node.data!, Math.max(node.data!.length, offset + written.length));
+
+                    written.copy(data, offset);
+                    node.data = data;
+                } else {
+                    node.data = written;
+                }
+
+                node.mtime = new Date();
+                callback();
+            }
+        });
+    }
+
+    public async createFile(remotePath: string): Promise<void> {
+        this.getFile(remotePath, 'open');
+    }
+
+    public async importFile(source: Source, sourcePath: string, remotePath: string): Promise<void> {
+        const data = await readStream(await source.createReadStream(sourcePath));
+
+        this.getFile(remotePath, 'copyfile').data = data;
+    }
+
+    public async copyFile(fromPath: string, toPath: string): Promise<void> {
+        const from = this.find(fromPath, 'copyfile');
+
+        if (!from.data) {
+            throw sourceError('EISDIR', 'copyfile', fromPath);
+        }
+
+        this.getFile(toPath, 'copyfile').data = Buffer.from(from.data);
+    }
+
+    public async setModifiedTime(remotePath: string, mtime: Date): Promise<void> {
+        this.find(remotePath, 'utime').mtime = mtime;
+    }
+
+    public async mkdir(remotePath: string): Promise<void> {
+        const [parent, name] = this.findParent(remotePath, 'mkdir');
+
+        if (parent.children!.has(name)) {
+            throw sourceError('EEXIST', 'mkdir', remotePath);
+        }
+
+        parent.children!.set(name, createNode(true));
+    }
+
+    public async isOpaque(remotePath: string): Promise<boolean> {
+        return this.has(remotePath) && this.find(remotePath, 'stat').opaque;
+    }
+
+    public async setOpaque(remotePath: string, opaque: boolean): Promise<void> {
+        this.find(remotePath, 'open').opaque = opaque;
+    }
+
+    public async rename(fromPath: string, toPath: string): Promise<void> {
+        const [fromParent, fromName] = this.findParent(fromPath, 'rename', false);
+        const node = fromParent.children!.get(fromName);
+
+        if (!node) {
+            throw sourceError('ENOENT', 'rename', fromPath);
+        }
+
+        const [toParent, toName] = this.findParent(toPath, 'rename');
+
+        fromParent.children!.delete(fromName);
+        toParent.children!.set(toName, node);
+    }
+
+    public async remove(remotePath: string): Promise<void> {
+        const [parent, name] = this.findParent(remotePath, 'unlink', false);
+        const node = parent.children!.get(name);
+
+        if (!node) {
+            throw sourceError('ENOENT', 'unlink', remotePath);
+        } else if (node.children && node.children.size > 0) {
+            throw sourceError('ENOTEMPTY', 'rmdir', remotePath);
+        }
+
+        parent.children!.delete(name);
+    }
+
+    public async removeTree(remotePath: string): Promise<void> {
+        if (remotePath === '/' || remotePath === '') {
+            this.root.children!.clear();
+            this.root.opaque = false;
+        } else if (this.has(remotePath)) {
+            const [parent, name] = this.findParent(remotePath, 'rmdir', false);
+
+            parent.children!.delete(name);
+        }
+    }
+
+    public async readJournal(): Promise<JournalRecord[]> {
+        return this.journal.slice();
+    }
+
+    public async rewriteJournal(compact: (records: JournalRecord[]) => Promise<JournalRecord[]>): Promise<JournalRecord[]> {
+        const length = this.journal.length;
+        const records = await compact(this.journal.slice());
+
+        // Keeps the records appended while compacting.
+        this.journal = records.concat(this.journal.slice(length));
+
+        return records;
+    }
+
+    public async appendJournal(record: JournalRecord): Promise<void> {
+        this.journal.push(record);
+    }
+
+    public async readDocument(name: string): Promise<string | undefined> {
+        return this.documents.get(name);
+    }
+
+    public async writeDocument(name: string, content: string): Promise<void> {
+        this.documents.set(name, content);
+    }
+
+    /**
+     * An overlay in memory is not shared.
+     */
+    public async lock(): Promise<void> {
+    }
+
+    public async close(): Promise<void> {
+    }
+
+    private has(remotePath: string): boolean {
+        try {
+            this.find(remotePath, 'stat');
+            return true;
+        } catch (err) {
+            return false;
+        }
+    }
+
+    /**
+     * Finds the node at a path, failing as `fs` does when it is missing.
+     */
+    private find(remotePath: string, syscall: string): MemoryNode {
+        let node = this.root;
+
+        for (const name of splitPath(remotePath)) {
+            if (!node.children) {
+                throw sourceError('ENOTDIR', syscall, remotePath);
+            }
+
+            const child = node.children.get(name);
+
+            if (!child) {
+                throw sourceError('ENOENT', syscall, remotePath);
+            }
+
+            node = child;
+        }
+
+        return node;
+    }
+
+    /**
+     * Finds the parent directory of a path, creating the missing ones unless
+     * told otherwise, and the name of the path in it.
+     */
+    private findParent(remotePath: string, syscall: string, create = true): [MemoryNode, string] {
+        const names = splitPath(remotePath);
+        let node = this.root;
+
+        if (names.length === 0) {
+            throw sourceError('EPERM', syscall, remotePath);
+        }
+
+        for (const name of names.slice(0, -1)) {
+            let child = node.children!.get(name);
+
+            if (!child && create) {
+                child = createNode(true);
+                node.children!.set(name, child);
+            } else if (!child) {
+                throw sourceError('ENOENT', syscall, remotePath);
+            }
+
+            if (!child.children) {
+                throw sourceError('ENOTDIR', syscall, remotePath);
+            }
+
+            node = child;
+        }
+
+        return [node, names[names.length - 1]];
+    }
+
+    /**
+     * Gets the file at a path, creating it if missing.
+     */
+    private getFile(remotePath: string, syscall: string): MemoryNode {
+        const [parent, name] = this.findParent(remotePath, syscall);
+        let node = parent.children!.get(name);
+
+        if (!node) {
+            node = createNode(false);
+            parent.children!.set(name, node);
+        } else if (node.children) {
+            throw sourceError('EISDIR', syscall, remotePath);
+        }
+
+        return node;
+    }
+}
+
+function createNode(directory: boolean): MemoryNode {
+    const now = new Date();
+
+    return directory
+        ? { children: new Map(), opaque: false, mode: 0o40755, mtime: now, birthtime: now }
+        : { data: Buffer.alloc(0), opaque: false, mode: 0o100644, mtime: now, birthtime: now };
+}
+
+function getStats(node: MemoryNode): SourceStats {
+    return {
+        size: node.data ? node.data.length : 0,
+        mode: node.mode,
+        mtime: node.mtime,
+        birthtime: node.birthtime,
+        isFile: () => !!node.data,
+        isDirectory: () => !!node.children
+    };
+}
+
+function splitPath(remotePath: string): string[] {
+    const names = remotePath.split('/').filter(name => name.length > 0);
+
+    if (names.some(name => name === '..')) {
+        throw new Error('Path cannot backward.');
+    }
+
+    return names;
+}
+
+/**
+ * Copies a buffer to a new size, cutting it or padding it with zeros.
+ */
+function resize(data: Buffer, size: number): Buffer {
+    const resized = Buffer.alloc(size);
+
+    data.copy(resized, 0, 0, Math.min(data.length, size));
+
+    return resized;
+}
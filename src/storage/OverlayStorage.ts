@@ -0,0 +1,162 @@
+import { Readable, Writable } from "stream";
+import Source, { SourceStats, ByteRange } from "../sources/Source";
+import { JournalRecord } from "../Journal";
+
+/**
+ * Kind of a local version: a file, a directory, or a file stored as a delta
+ * file (see `getDeltasPath`).
+ */
+export type StoredType = 'file' | 'directory' | 'delta';
+
+/**
+ * A local version kept by an overlay storage, found when the repository
+ * rebuilds its index.
+ */
+export interface StoredEntry {
+    path: string;
+    type: StoredType;
+
+    /**
+     * Size of a file. The size of a delta file is left to the delta file.
+     */
+    size: number;
+    opaque: boolean;
+}
+
+/**
+ * Where a position write goes: from `start`, the file being first resized
+ * to `size` if given.
+ */
+export interface WritePosition {
+    start: number;
+    size?: number;
+}
+
+/**
+ * Writable side of a repository: the local versions of the files and
+ * directories, addressed by WebDAV paths (`/dir/file`) as the source, with
+ * the journal of the changes and the documents kept alongside (such as the
+ * WebDAV properties).
+ *
+ * Writes create the missing ancestors of their path. Failures are rejected
+ * with errors coded as by `fs` (see `sourceError`).
+ */
+export default interface OverlayStorage {
+    /**
+     * Where the overlay is kept, as a changes directory, for messages.
+     */
+    readonly location: string;
+
+    stat(remotePath: string): Promise<SourceStats>;
+
+    /**
+     * Lists a local directory, without the entries kept for the storage
+     * itself.
+     */
+    readDir(remotePath: string): Promise<string[]>;
+
+    /**
+     * Lists all the local versions, for the repository to index them.
+     */
+    listEntries(): Promise<StoredEntry[]>;
+
+    /**
+     * Removes what interrupted writes left behind: the temporary files of
+     * the uploads that did not complete and, after a crash, what the writes
+     * left in the overlay itself, before the local versions are listed
+     * again. Only the process holding the lock recovers the overlay.
+     *
+     * @param overlay Whether to look through the overlay too, as when the
+     * index was not closed.
+     * @returns Paths of the removed files, for messages.
+     */
+    recover(overlay: boolean): Promise<string[]>;
+
+    createReadStream(remotePath: string, range?: ByteRange): Promise<Readable>;
+
+    /**
+     * Opens a file for writing, replacing its content, or writing from a
+     * position and keeping the other bytes. The file is created if missing.
+     * A replaced content is only put in place once all written, so that a
+     * failed write leaves the file as it was.
+     */
+    createWriteStream(remotePath: string, position?: WritePosition): Promise<Writable>;
+
+    /**
+     * Creates an empty file, unless there is one.
+     */
+    createFile(remotePath: string): Promise<void>;
+
+    /**
+     * Copies a file of the source into the overlay, for copy-up. As for
+     * `copyFile`, the copy is only put in place once complete.
+     */
+    importFile(source: Source, sourcePath: string, remotePath: string): Promise<void>;
+    copyFile(fromPath: string, toPath: string): Promise<void>;
+    setModifiedTime(remotePath: string, mtime: Date): Promise<void>;
+
+    /**
+     * Creates a directory, failing with `EEXIST` if there is one.
+     */
+    mkdir(remotePath: string): Promise<void>;
+
+    /**
+     * Tells whether a local directory hides the contents of its source
+     * version, as it was deleted and re-created.
+     */
+    isOpaque(remotePath: string): Promise<boolean>;
+    setOpaque(remotePath: string, opaque: boolean): Promise<void>;
+    rename(fromPath: string, toPath: string): Promise<void>;
+
+    /**
+     * Removes a file, or a directory without local children.
+     */
+    remove(remotePath: string): Promise<void>;
+
+    /**
+     * Removes a file or a directory with all its descendants, if there is
+     * one. The root is emptied.
+     */
+    removeTree(remotePath: string): Promise<void>;
+
+    readJournal(): Promise<JournalRecord[]>;
+
+    /**
+     * Replaces the journal, atomically, by the records compacted from its
+     * current ones. Records appended meanwhile go to the new journal.
+     *
+     * @returns The new records.
+     */
+    rewriteJournal(compact: (records: JournalRecord[]) => Promise<JournalRecord[]>): Promise<JournalRecord[]>;
+    appendJournal(record: JournalRecord): Promise<void>;
+
+    /**
+     * Reads a document kept with the overlay, if there is one. Documents
+     * may be named with a directory (`dir/name`).
+     */
+    readDocument(name: string): Promise<string | undefined>;
+
+    /**
+     * Replaces a document at once, so that a crash leaves either version.
+     */
+    writeDocument(name: string, content: string): Promise<void>;
+
+    /**
+     * Takes the overlay for this process until `close`, so that no other
+     * process changes it, nor marks its index as closed, meanwhile. It is
+     * refused as `EBUSY` while another running process holds it.
+     */
+    lock(): Promise<void>;
+
+    /**
+     * Releases what the storage holds open, and its lock, before it is
+     * loaded again.
+     */
+    close(): Promise<void>;
+
+    /**
+     * Directory on disk of the delta files of a local directory (see
+     * `DeltaFile`). Storages without one keep files whole.
+     */
+    getDeltasPath?(remotePath: string): string;
+}
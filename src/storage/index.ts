@@ -0,0 +1,22 @@
+import * as path from "path";
+import OverlayStorage from "./OverlayStorage";
+import DirectoryStorage from "./DirectoryStorage";
+import MemoryStorage from "./MemoryStorage";
+
+/**
+ * Prefix of the changes "directories" kept in memory, as `memory:` or
+ * `memory:<name>`.
+ */
+export const MEMORY_PREFIX = 'memory:';
+
+export function isMemoryPath(changesPath: string): boolean {
+    return changesPath.startsWith(MEMORY_PREFIX);
+}
+
+/**
+ * Opens the storage of an overlay, chosen by its changes path: in memory
+ * (`memory:`), or a changes directory.
+ */
+export function openStorage(changesPath: string, dirSeparator: string = path.sep): OverlayStorage {
+    return isMemoryPath(changesPath) ? new MemoryStorage(changesPath) : new DirectoryStorage(changesPath, dirSeparator);
+}
@@ -0,0 +1,140 @@
+type Operation = { kind: ' ' | '-' | '+', line: string, last: boolean };
+
+/**
+ * Builds a unified diff (as produced by `diff -u`) between two texts,
+ * using Myers' algorithm over lines.
+ */
+export default function unifiedDiff(oldText: string, newText: string, oldLabel: string, newLabel: string, context: number = 3): string {
+    const operations = diffLines(splitLines(oldText), splitLines(newText));
+    const changed = operations.map((op, index) => op.kind !== ' ' ? index : -1).filter(index => index >= 0);
+
+    if (changed.length === 0) {
+        return '';
+    }
+
+    // Line position, on both sides, before each operation.
+    const oldPosition: number[] = [], newPosition: number[] = [];
+
+    operations.reduce(([oldLine, newLine], op, index) => {
+        oldPosition[index] = oldLine;
+        newPosition[index] = newLine;
+
+        return [oldLine + (op.kind !== '+' ? 1 : 0), newLine + (op.kind !== '-' ? 1 : 0)];
+    }, [0, 0]);
+
+    const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+    let first = 0;
+
+    while (first < changed.length) {
+        let last = first;
+
+        while (last + 1 < changed.length && changed[last + 1] - changed[last] - 1 <= 2 * context) {
+            last++;
+        }
+
+        const from = Math.max(0, changed[first] - context);
+        const to = Math.min(operations.length, changed[last] + context + 1);
+        const hunk = operations.slice(from, to);
+        const oldCount = hunk.filter(op => op.kind !== '+').length;
+        const newCount = hunk.filter(op => op.kind !== '-').length;
+
+        output.push(`@@ -${range(oldPosition[from], oldCount)} +${range(newPosition[from], newCount)} @@`);
+        hunk.forEach(op => {
+            output.push(op.kind + op.line);
+
+            if (op.last) {
+                output.push('\\ No newline at end of file');
+            }
+        });
+
+        first = last + 1;
+    }
+
+    return output.join('\n') + '\n';
+}
+
+function range(start: number, count: number): string {
+    return count === 1 ? `${start + 1}` : `${count === 0 ? start : start + 1},${count}`;
+}
+
+type Lines = { lines: string[], missingNewline: boolean };
+
+function splitLines(text: string): Lines {
+    if (text.length === 0) {
+        return { lines: [], missingNewline: false };
+    }
+
+    const lines = text.split('\n');
+    const missingNewline = lines[lines.length - 1] !== '';
+
+    if (!missingNewline) {
+        lines.pop();
+    }
+
+    return { lines, missingNewline };
+}
+
+function isLast(lines: Lines, index: number): boolean {
+    return lines.missingNewline && index === lines.lines.length - 1;
+}
+
+function diffLines(a: Lines, b: Lines): Operation[] {
+    const n = a.lines.length, m = b.lines.length, offset = n + m + 1;
+    const v = new Array<number>(2 * offset + 1).fill(0);
+    const trace: number[][] = [];
+    // A last line missing its newline is not equal to the same line with one.
+    const keys = (lines: Lines) => lines.lines.map((line, index) => isLast(lines, index) ? line + '\0' : line);
+    const keysA = keys(a), keysB = keys(b);
+    let found = false;
+
+    // Forward pass, keeping only the reachable diagonals of each step.
+    for (let d = 0; d <= n + m && !found; d++) {
+        trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+        for (let k = -d; k <= d; k += 2) {
+            let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+            let y = x - k;
+
+            while (x < n && y < m && keysA[x] === keysB[y]) {
+                x++;
+                y++;
+            }
+
+            v[offset + k] = x;
+
+            if (x >= n && y >= m) {
+                found = true;
+                break;
+            }
+        }
+    }
+
+    const operations: Operation[] = [];
+    let x = n, y = m;
+
+    for (let d = trace.length - 1; d >= 0; d--) {
+        const snapshot = trace[d], at = (k: number) => snapshot[k + d + 1];
+        const k = x - y;
+        const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+        const previousX = d > 0 ? at(previousK) : 0;
+        const previousY = d > 0 ? previousX - previousK : 0;
+
+        while (x > previousX && y > previousY) {
+            x--;
+            y--;
+            operations.push({ kind: ' ', line: a.lines[x], last: isLast(a, x) });
+        }
+
+        if (d > 0) {
+            if (x === previousX) {
+                y--;
+                operations.push({ kind: '+', line: b.lines[y], last: isLast(b, y) });
+            } else {
+                x--;
+                operations.push({ kind: '-', line: a.lines[x], last: isLast(a, x) });
+            }
+        }
+    }
+
+    return operations.reverse();
+}
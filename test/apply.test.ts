@@ -0,0 +1,72 @@
+import * as assert from "assert";
+import { readFileSync, utimesSync, writeFileSync } from "fs";
+import * as path from "path";
+import apply from "../src/commands/apply";
+import { closeRepositories, parseArguments } from "../src/commands/arguments";
+import { cleanUp, createSource, createTempDir, request, startServer } from "./helpers";
+
+describe('wpm apply', () => {
+    let source: string, changes: string;
+
+    beforeEach(async () => {
+        source = createSource({ '/a.txt': 'original', '/b.txt': 'b' });
+        changes = createTempDir();
+
+        const server = await startServer({ mounts: [{ path: '/', source: [source], changes }] });
+
+        assert.strictEqual((await request(server, 'PUT', '/a.txt', { body: 'mine' })).status, 200);
+        await server.stop();
+    });
+
+    afterEach(cleanUp);
+
+    it('applies the changes onto a copy of the source', async () => {
+        const target = createSource({ '/a.txt': 'original', '/b.txt': 'b' });
+
+        assert.strictEqual(await run(source, changes, target), 0);
+        assert.strictEqual(readFileSync(path.join(target, 'a.txt')).toString(), 'mine');
+    });
+
+    it('reports a conflict on a source changed since the copy-up', async () => {
+        writeSource(source, 'a.txt', 'theirs');
+
+        assert.strictEqual(await run(source, changes, source, '--dry-run'), 1);
+        assert.strictEqual(await run(source, changes, source), 1);
+        assert.strictEqual(readFileSync(path.join(source, 'a.txt')).toString(), 'theirs');
+    });
+
+    it('takes the version copied up as the base when the source changed since', async () => {
+        const target = createSource({ '/a.txt': 'original', '/b.txt': 'b' });
+
+        writeSource(source, 'a.txt', 'theirs');
+
+        assert.strictEqual(await run(source, changes, target), 0);
+        assert.strictEqual(readFileSync(path.join(target, 'a.txt')).toString(), 'mine');
+    });
+
+    it('overwrites the conflicts when forced', async () => {
+        writeSource(source, 'a.txt', 'theirs');
+
+        assert.strictEqual(await run(source, changes, source, '--force'), 0);
+        assert.strictEqual(readFileSync(path.join(source, 'a.txt')).toString(), 'mine');
+    });
+});
+
+async function run(...args: string[]): Promise<number> {
+    try {
+        return await apply(parseArguments(args));
+    } finally {
+        await closeRepositories();
+    }
+}
+
+/**
+ * Changes a source file, as its owner would after the copy-up, with a later
+ * modification time.
+ */
+function writeSource(source: string, name: string, content: string) {
+    const later = new Date(Date.now() + 60000);
+
+    writeFileSync(path.join(source, name), content);
+    utimesSync(path.join(source, name), later, later);
+}
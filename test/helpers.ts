@@ -0,0 +1,126 @@
+import { mkdtempSync, writeFileSync } from "fs";
+import * as http from "http";
+import { tmpdir } from "os";
+import * as path from "path";
+import { MirrorRepository, PreservingMirrorServer, createPreservingMirrorServer, ServerOptions } from "../src";
+import { mkDirByPathSync, removeTree } from "../src/files";
+
+export interface Response {
+    status: number;
+    headers: http.IncomingHttpHeaders;
+    body: string;
+}
+
+export interface RequestOptions {
+    headers?: http.OutgoingHttpHeaders;
+
+    /**
+     * Body, sent whole, or in chunks without `Content-Length`.
+     */
+    body?: string | Buffer | Buffer[];
+    agent?: http.Agent;
+}
+
+/**
+ * Temporary directories and servers, removed and stopped by `cleanUp`.
+ */
+const dirs: string[] = [];
+const servers: PreservingMirrorServer[] = [];
+
+export function createTempDir(): string {
+    const dir = mkdtempSync(path.join(tmpdir(), 'wpm-test-'));
+
+    dirs.push(dir);
+
+    return dir;
+}
+
+/**
+ * Creates a source directory with the files given by path.
+ */
+export function createSource(files: { [remotePath: string]: string }): string {
+    const dir = createTempDir();
+
+    writeFiles(dir, files);
+
+    return dir;
+}
+
+export function writeFiles(dir: string, files: { [remotePath: string]: string }) {
+    for (const remotePath of Object.keys(files)) {
+        const localPath = path.join(dir, ...remotePath.split('/'));
+
+        mkDirByPathSync(path.dirname(localPath));
+        writeFileSync(localPath, files[remotePath]);
+    }
+}
+
+/**
+ * Starts a server on a free port of the loopback interface.
+ */
+export async function startServer(options: ServerOptions): Promise<PreservingMirrorServer> {
+    const server = createPreservingMirrorServer({ port: 0, host: '127.0.0.1', ...options });
+
+    await server.start();
+    servers.push(server);
+
+    return server;
+}
+
+/**
+ * Gets the repository of a mount shared by all users.
+ */
+export function getRepository(server: PreservingMirrorServer, mountPath = '/'): MirrorRepository {
+    return server.repositories.get(mountPath) as MirrorRepository;
+}
+
+export function request(server: PreservingMirrorServer, method: string, requestPath: string, options: RequestOptions = {}): Promise<Response> {
+    return new Promise((resolve, reject) => {
+        const req = http.request({
+            host: '127.0.0.1',
+            port: server.address!.port,
+            method,
+            path: requestPath,
+            headers: options.headers,
+            agent: options.agent
+        }, res => {
+            const chunks: Buffer[] = [];
+
+            res.on('data', (chunk: Buffer) => chunks.push(chunk));
+            res.once('error', reject);
+            res.once('end', () => resolve({ status: res.statusCode!, headers: res.headers, body: Buffer.concat(chunks).toString() }));
+        });
+
+        req.once('error', reject);
+
+        if (Array.isArray(options.body)) {
+            options.body.forEach(chunk => req.write(chunk));
+            req.end();
+        } else {
+            req.end(options.body);
+        }
+    });
+}
+
+/**
+ * Resolves with the error a promise rejects with, failing if it resolves.
+ */
+export function rejection(promise: Promise<any>): Promise<any> {
+    return promise.then(() => {
+        throw new Error('Resolved instead of rejecting.');
+    }, err => err);
+}
+
+/**
+ * Stops the servers started and removes the temporary directories, after
+ * each test.
+ */
+export async function cleanUp(): Promise<void> {
+    for (const server of servers.splice(0)) {
+        await server.stop();
+    }
+
+    for (const dir of dirs.splice(0)) {
+        await removeTree(dir);
+    }
+}
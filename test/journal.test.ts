@@ -0,0 +1,59 @@
+import * as assert from "assert";
+import { appendFileSync, readFileSync, writeFileSync } from "fs";
+import * as path from "path";
+import Journal from "../src/Journal";
+import { cleanUp, createTempDir } from "./helpers";
+
+describe('Journal', () => {
+    afterEach(cleanUp);
+
+    it('writes its header when an append creates it', async () => {
+        const journalPath = path.join(createTempDir(), 'journal');
+        const journal = new Journal(journalPath);
+
+        await journal.append({ op: 'delete', path: '/a.txt', time: '2020-01-01T00:00:00.000Z' });
+        await journal.close();
+        await journal.append({ op: 'create', path: '/b.txt', time: '2020-01-01T00:00:01.000Z' });
+        await journal.close();
+
+        assert.deepStrictEqual(JSON.parse(readFileSync(journalPath).toString().split('\n')[0]), { journal: 'wpm', version: 1 });
+        assert.deepStrictEqual(await Journal.read(journalPath), [
+            { op: 'delete', path: '/a.txt', time: '2020-01-01T00:00:00.000Z' },
+            { op: 'create', path: '/b.txt', time: '2020-01-01T00:00:01.000Z' }
+        ]);
+    });
+
+    it('drops a record torn by a crash', async () => {
+        const journalPath = path.join(createTempDir(), 'journal');
+        const journal = new Journal(journalPath);
+
+        await journal.append({ op: 'delete', path: '/a.txt', time: '2020-01-01T00:00:00.000Z' });
+        await journal.close();
+        appendFileSync(journalPath, '{"op":"delete","pa');
+
+        assert.deepStrictEqual((await Journal.read(journalPath)).map(record => record.path), ['/a.txt']);
+    });
+
+    it('reads the former list of deleted paths', async () => {
+        const journalPath = path.join(createTempDir(), 'deleted');
+
+        writeFileSync(journalPath, '/a.txt\n/dir\n');
+
+        assert.deepStrictEqual((await Journal.read(journalPath)).map(record => [record.op, record.path]), [['delete', '/a.txt'], ['delete', '/dir']]);
+    });
+
+    it('rewrites its records, keeping the later appends', async () => {
+        const journalPath = path.join(createTempDir(), 'journal');
+        const journal = new Journal(journalPath);
+
+        await journal.append({ op: 'create', path: '/a.txt', time: '2020-01-01T00:00:00.000Z' });
+        await journal.append({ op: 'delete', path: '/a.txt', time: '2020-01-01T00:00:01.000Z' });
+        await Promise.all([
+            journal.rewrite(async () => []),
+            journal.append({ op: 'create', path: '/b.txt', time: '2020-01-01T00:00:02.000Z' })
+        ]);
+        await journal.close();
+
+        assert.deepStrictEqual((await Journal.read(journalPath)).map(record => record.path), ['/b.txt']);
+    });
+});
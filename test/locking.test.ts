@@ -0,0 +1,85 @@
+import * as assert from "assert";
+import { spawn, spawnSync } from "child_process";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import * as path from "path";
+import { createPreservingMirrorServer } from "../src";
+import { cleanUp, createSource, createTempDir, getRepository, rejection, request, startServer, writeFiles } from "./helpers";
+
+describe('Locking and recovery of the changes', () => {
+    afterEach(cleanUp);
+
+    it('refuses to start on changes locked by another process', async () => {
+        const source = createSource({ '/a.txt': 'a' });
+        const changes = createTempDir();
+        const holder = spawn(process.execPath, ['-e', 'setTimeout(() => undefined, 20000)']);
+
+        try {
+            writeFileSync(path.join(changes, 'lock'), String(holder.pid));
+
+            const server = createPreservingMirrorServer({ port: 0, host: '127.0.0.1', mounts: [{ path: '/', source: [source], changes }] });
+            const err = await rejection(server.start());
+
+            assert.strictEqual(err.code, 'EBUSY');
+            assert.strictEqual(server.address, undefined);
+
+            await server.stop();
+            await getRepository(server).close();
+            assert.strictEqual(readFileSync(path.join(changes, 'lock')).toString(), String(holder.pid));
+        } finally {
+            holder.kill();
+        }
+    });
+
+    it('takes over the lock of a process that is gone', async () => {
+        const source = createSource({ '/a.txt': 'a' });
+        const changes = createTempDir();
+        const gone = spawnSync(process.execPath, ['-e', '']);
+
+        writeFileSync(path.join(changes, 'lock'), String(gone.pid));
+
+        const server = await startServer({ mounts: [{ path: '/', source: [source], changes }] });
+
+        assert.strictEqual(readFileSync(path.join(changes, 'lock')).toString(), String(process.pid));
+        assert.strictEqual((await request(server, 'PUT', '/a.txt', { body: 'changed' })).status, 200);
+
+        await server.stop();
+        assert.ok(!existsSync(path.join(changes, 'lock')));
+    });
+
+    it('removes what interrupted writes left, on a clean start too', async () => {
+        const source = createSource({ '/a.txt': 'a' });
+        const changes = createTempDir();
+        let server = await startServer({ mounts: [{ path: '/', source: [source], changes }] });
+
+        await request(server, 'PUT', '/a.txt', { body: 'changed' });
+        await server.stop();
+
+        writeFiles(changes, { '/tmp/0123456789abcdef': 'torn' });
+        server = await startServer({ mounts: [{ path: '/', source: [source], changes }] });
+
+        assert.ok(!existsSync(path.join(changes, 'tmp', '0123456789abcdef')));
+        assert.strictEqual((await request(server, 'GET', '/a.txt')).body, 'changed');
+    });
+
+    it('rebuilds the index after a crash, replaying the journal', async () => {
+        const source = createSource({ '/a.txt': 'a', '/dir/b.txt': 'b' });
+        const changes = createTempDir();
+        let server = await startServer({ mounts: [{ path: '/', source: [source], changes }] });
+
+        await request(server, 'PUT', '/a.txt', { body: 'changed' });
+        await request(server, 'DELETE', '/dir/b.txt');
+        await server.stop();
+
+        const indexPath = path.join(changes, 'index.json');
+
+        writeFileSync(indexPath, readFileSync(indexPath).toString().replace('"clean":true', '"clean":false'));
+        server = await startServer({ mounts: [{ path: '/', source: [source], changes }] });
+
+        assert.strictEqual((await request(server, 'GET', '/a.txt')).body, 'changed');
+        assert.strictEqual((await request(server, 'GET', '/dir/b.txt')).status, 404);
+        assert.deepStrictEqual(await getRepository(server).changes(), [
+            { path: '/a.txt', type: 'modified', directory: false },
+            { path: '/dir/b.txt', type: 'deleted', directory: false }
+        ]);
+    });
+});
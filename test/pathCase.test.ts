@@ -0,0 +1,48 @@
+import * as assert from "assert";
+import { PreservingMirrorServer } from "../src";
+import { cleanUp, createSource, request, startServer } from "./helpers";
+
+describe('Case-insensitive mounts', () => {
+    afterEach(cleanUp);
+
+    it('resolves paths given in any case to the stored names', async () => {
+        const server = await startServer({ mounts: [{ path: '/', source: [createSource({ '/Dir/File.txt': 'f' })], changes: 'memory:', caseInsensitive: true }] });
+
+        assert.strictEqual((await request(server, 'GET', '/dir/file.TXT')).body, 'f');
+        assert.strictEqual((await request(server, 'PUT', '/DIR/FILE.txt', { body: 'g' })).status, 200);
+        assert.deepStrictEqual(await listNames(server, '/Dir'), ['/Dir/File.txt']);
+    });
+
+    it('renames to another case at the root', async () => {
+        const server = await startServer({ mounts: [{ path: '/', source: [createSource({ '/a.txt': 'a' })], changes: 'memory:', caseInsensitive: true }] });
+
+        assert.strictEqual((await request(server, 'MOVE', '/a.txt', { headers: { Destination: '/A.txt' } })).status, 201);
+        assert.deepStrictEqual(await listNames(server, '/'), ['/A.txt']);
+    });
+
+    it('renames to another case below the root', async () => {
+        const server = await startServer({ mounts: [{ path: '/', source: [createSource({ '/dir/one.txt': '1', '/dir/sub/two.txt': '2' })], changes: 'memory:', caseInsensitive: true }] });
+
+        assert.strictEqual((await request(server, 'MOVE', '/DIR/one.txt', { headers: { Destination: '/dir/One.txt' } })).status, 201);
+        assert.strictEqual((await request(server, 'MOVE', '/dir/sub', { headers: { Destination: '/DIR/Sub' } })).status, 201);
+        assert.deepStrictEqual(await listNames(server, '/dir'), ['/dir/One.txt', '/dir/Sub/']);
+        assert.strictEqual((await request(server, 'GET', '/dir/sub/TWO.txt')).body, '2');
+    });
+
+    it('renames to another case below a mount prefix', async () => {
+        const server = await startServer({ mounts: [{ path: '/m', source: [createSource({ '/dir/one.txt': '1' })], changes: 'memory:', caseInsensitive: true }] });
+
+        assert.strictEqual((await request(server, 'MOVE', '/m/dir/one.txt', { headers: { Destination: '/m/dir/ONE.txt' } })).status, 201);
+        assert.deepStrictEqual(await listNames(server, '/m/dir'), ['/m/dir/ONE.txt']);
+    });
+});
+
+/**
+ * Lists the names of a directory, from a `PROPFIND` of depth 1.
+ */
+async function listNames(server: PreservingMirrorServer, dirPath: string): Promise<string[]> {
+    const { body } = await request(server, 'PROPFIND', dirPath, { headers: { Depth: '1' } });
+    const hrefs = (body.match(/<D:href>[^<]*<\/D:href>/g) || []).map(href => decodeURIComponent(href.replace(/<\/?D:href>/g, '')));
+
+    return hrefs.map(href => href.replace(/^https?:\/\/[^/]+/, '')).filter(href => href.replace(/\/$/, '') !== dirPath.replace(/\/$/, '')).sort();
+}
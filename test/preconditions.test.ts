@@ -0,0 +1,43 @@
+import * as assert from "assert";
+import { cleanUp, createSource, request, startServer } from "./helpers";
+
+describe('Conditional requests', () => {
+    afterEach(cleanUp);
+
+    it('gives a new ETag to each write, even within the same millisecond', async () => {
+        const server = await startServer({ mounts: [{ path: '/', source: [createSource({ '/a.txt': 'a' })], changes: 'memory:' }] });
+        const read = await request(server, 'GET', '/a.txt');
+        const first = await request(server, 'PUT', '/a.txt', { body: 'same' });
+        const second = await request(server, 'PUT', '/a.txt', { body: 'same' });
+
+        assert.ok(read.headers.etag && first.headers.etag && second.headers.etag);
+        assert.notStrictEqual(first.headers.etag, read.headers.etag);
+        assert.notStrictEqual(second.headers.etag, first.headers.etag);
+        assert.strictEqual((await request(server, 'HEAD', '/a.txt')).headers.etag, second.headers.etag);
+    });
+
+    it('only overwrites the version matched by If-Match', async () => {
+        const server = await startServer({ mounts: [{ path: '/', source: [createSource({ '/a.txt': 'a' })], changes: 'memory:' }] });
+        const stale = (await request(server, 'GET', '/a.txt')).headers.etag as string;
+        const current = (await request(server, 'PUT', '/a.txt', { body: 'theirs' })).headers.etag as string;
+
+        assert.strictEqual((await request(server, 'PUT', '/a.txt', { body: 'mine', headers: { 'If-Match': stale } })).status, 412);
+        assert.strictEqual((await request(server, 'GET', '/a.txt')).body, 'theirs');
+        assert.strictEqual((await request(server, 'PUT', '/a.txt', { body: 'mine', headers: { 'If-Match': current } })).status, 200);
+        assert.strictEqual((await request(server, 'GET', '/a.txt')).body, 'mine');
+    });
+
+    it('only creates a file with If-None-Match: *', async () => {
+        const server = await startServer({ mounts: [{ path: '/', source: [createSource({ '/a.txt': 'a' })], changes: 'memory:' }] });
+
+        assert.strictEqual((await request(server, 'PUT', '/a.txt', { body: 'b', headers: { 'If-None-Match': '*' } })).status, 412);
+        assert.strictEqual((await request(server, 'PUT', '/b.txt', { body: 'b', headers: { 'If-None-Match': '*' } })).status, 201);
+    });
+
+    it('answers Not Modified to a read of the version the client has', async () => {
+        const server = await startServer({ mounts: [{ path: '/', source: [createSource({ '/a.txt': 'a' })], changes: 'memory:' }] });
+        const etag = (await request(server, 'GET', '/a.txt')).headers.etag as string;
+
+        assert.strictEqual((await request(server, 'GET', '/a.txt', { headers: { 'If-None-Match': etag } })).status, 304);
+    });
+});
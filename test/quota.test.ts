@@ -0,0 +1,42 @@
+import * as assert from "assert";
+import * as http from "http";
+import { cleanUp, createSource, getRepository, request, startServer } from "./helpers";
+
+describe('Quotas', () => {
+    let agent: http.Agent;
+
+    beforeEach(() => {
+        // A single connection, kept alive, as most clients do.
+        agent = new http.Agent({ keepAlive: true, maxSockets: 1 });
+    });
+
+    afterEach(async () => {
+        agent.destroy();
+        await cleanUp();
+    });
+
+    it('refuses a write announced over the quota, and serves the next requests', async () => {
+        const server = await startServer({ mounts: [{ path: '/', source: [createSource({})], changes: 'memory:', quota: { bytes: 10000 } }] });
+
+        assert.strictEqual((await request(server, 'PUT', '/big.bin', { body: Buffer.alloc(250000), agent })).status, 507);
+        assert.strictEqual((await request(server, 'PUT', '/small.txt', { body: 'small', agent })).status, 201);
+        assert.strictEqual(getRepository(server).usage.bytes, 5);
+    });
+
+    it('stops a chunked write once over the quota, and serves the next requests', async () => {
+        const server = await startServer({ mounts: [{ path: '/', source: [createSource({})], changes: 'memory:', quota: { bytes: 100000 } }] });
+        const chunks = Array.from({ length: 25 }, () => Buffer.alloc(10000));
+
+        assert.strictEqual((await request(server, 'PUT', '/big.bin', { body: chunks, agent })).status, 507);
+        assert.strictEqual((await request(server, 'PUT', '/small.txt', { body: 'small', agent })).status, 201);
+        assert.strictEqual(getRepository(server).usage.bytes, 5);
+    });
+
+    it('limits the number of local files', async () => {
+        const server = await startServer({ mounts: [{ path: '/', source: [createSource({ '/a.txt': 'a' })], changes: 'memory:', quota: { files: 1 } }] });
+
+        assert.strictEqual((await request(server, 'PUT', '/a.txt', { body: 'changed', agent })).status, 200);
+        assert.strictEqual((await request(server, 'PUT', '/b.txt', { body: 'b', agent })).status, 507);
+        assert.strictEqual((await request(server, 'GET', '/a.txt', { agent })).body, 'changed');
+    });
+});
@@ -0,0 +1,2 @@
+// Runs the tests from their TypeScript sources, type-checked against the tests' configuration.
+require('ts-node').register({ project: require('path').join(__dirname, 'tsconfig.json') });